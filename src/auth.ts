@@ -1,17 +1,50 @@
-import axios, { AxiosRequestConfig } from 'axios';
-import { Config } from './config.js';
+import axios, { AxiosRequestConfig, AxiosResponse } from 'axios';
+import { AuthSettings, Config } from './config.js';
+import { OAuth2TokenProvider } from './oauth2.js';
+import { matchesHost } from './server-url.js';
+
+function isOAuth2(auth: AuthSettings): boolean {
+  return auth.type === 'oauth2ClientCredentials' || auth.type === 'oauth2Password';
+}
+
+function hostOf(url?: string): string | null {
+  try {
+    return url ? new URL(url).host.toLowerCase() : null;
+  } catch {
+    return null;
+  }
+}
 
 export class AuthManager {
+  // One token cache per auth block, so rules with different OAuth2 clients don't share tokens
+  private tokenProviders: Map<AuthSettings, OAuth2TokenProvider> = new Map();
+
   constructor(private config: Config) {}
 
-  applyAuth(requestConfig: AxiosRequestConfig): AxiosRequestConfig {
-    const { auth } = this.config;
-    
-    if (!auth || auth.type === 'none') {
+  // Picks the first auth rule matching the request's host and source, falling back to the global auth
+  resolveAuth(url?: string, source?: string): AuthSettings {
+    const host = hostOf(url);
+    const rule = (this.config.authRules || []).find(candidate => {
+      if (candidate.source && candidate.source !== source) {
+        return false;
+      }
+      if (candidate.host && !(host && (matchesHost(host, candidate.host) || matchesHost(host.replace(/:\d+$/, ''), candidate.host)))) {
+        return false;
+      }
+      return true;
+    });
+    return rule || this.config.auth;
+  }
+
+  applyAuth(requestConfig: AxiosRequestConfig, source?: string): AxiosRequestConfig {
+    const auth = this.resolveAuth(requestConfig.url, source);
+
+    if (!auth) {
       return requestConfig;
     }
 
     requestConfig.headers = requestConfig.headers || {};
+    Object.assign(requestConfig.headers, auth.headers);
 
     switch (auth.type) {
       case 'basic':
@@ -31,24 +64,80 @@ export class AuthManager {
 
       case 'apiKey':
         if (auth.credentials?.apiKey) {
-          const headerName = auth.credentials.apiKeyHeader || 'X-API-Key';
-          requestConfig.headers[headerName] = auth.credentials.apiKey;
+          this.applyApiKey(requestConfig, auth.credentials);
         }
         break;
+
+      case 'oauth2ClientCredentials':
+      case 'oauth2Password': {
+        // Synchronous callers get the cached token; authorize() fetches one first
+        const token = this.getTokenProvider(auth).getCachedToken();
+        requestConfig.headers['Authorization'] = `Bearer ${token || '<oauth2 token>'}`;
+        break;
+      }
     }
 
     return requestConfig;
   }
 
-  async authenticatedRequest(url: string, config?: AxiosRequestConfig): Promise<any> {
-    console.error(`[AuthManager] Making request to: ${url}`);
-    console.error(`[AuthManager] Auth type: ${this.config.auth.type}`);
-    const authConfig = this.applyAuth(config || {});
+  // Lower-cased header and query parameter names that carry credentials for this request
+  secretFields(url?: string, source?: string): { headers: string[]; params: string[] } {
+    const auth = this.resolveAuth(url, source);
+    const credentials = auth?.credentials;
+    if (auth?.type !== 'apiKey' || !credentials) {
+      return { headers: [], params: [] };
+    }
+    if (credentials.apiKeyIn === 'query') {
+      return { headers: [], params: [credentials.apiKeyName.toLowerCase()] };
+    }
+    if (credentials.apiKeyIn === 'cookie') {
+      return { headers: ['cookie'], params: [] };
+    }
+    return { headers: [credentials.apiKeyHeader.toLowerCase()], params: [] };
+  }
+
+  async authorize(requestConfig: AxiosRequestConfig, source?: string): Promise<AxiosRequestConfig> {
+    const auth = this.resolveAuth(requestConfig.url, source);
+    if (auth && isOAuth2(auth)) {
+      await this.getTokenProvider(auth).getToken();
+    }
+    return this.applyAuth(requestConfig, source);
+  }
+
+  // Sends an authenticated request; an OAuth2 token the server rejects is replaced and the request retried once
+  async request(requestConfig: AxiosRequestConfig, source?: string): Promise<AxiosResponse> {
+    const auth = this.resolveAuth(requestConfig.url, source);
+    const tokenProvider = auth && isOAuth2(auth) ? this.getTokenProvider(auth) : null;
+    const send = async () => axios.request(await this.authorize({
+      ...requestConfig,
+      headers: { ...(requestConfig.headers as Record<string, string> | undefined) },
+      params: requestConfig.params ? { ...requestConfig.params } : undefined,
+    }, source));
+
+    try {
+      const response = await send();
+      if (response.status !== 401 || !tokenProvider) {
+        return response;
+      }
+    } catch (error) {
+      if (!tokenProvider || !axios.isAxiosError(error) || error.response?.status !== 401) {
+        throw error;
+      }
+    }
+
+    console.error('[AuthManager] Received 401, refreshing OAuth2 token and retrying once');
+    tokenProvider.invalidate();
+    return send();
+  }
+
+  async authenticatedRequest(url: string, config?: AxiosRequestConfig, source?: string): Promise<any> {
+    console.error(`[AuthManager] Making request to: ${url}${source ? ` for source ${source}` : ''}`);
+    console.error(`[AuthManager] Auth type: ${this.resolveAuth(url, source)?.type}`);
     // Force response to be text to avoid axios auto-parsing
-    authConfig.responseType = 'text';
-    console.error(`[AuthManager] Request config:`, JSON.stringify(authConfig, null, 2));
+    const requestConfig: AxiosRequestConfig = { ...config, method: 'GET', url, responseType: 'text' };
+    console.error(`[AuthManager] Request config:`, JSON.stringify(requestConfig, null, 2));
     try {
-      const response = await axios.get(url, authConfig);
+      const response = await this.request(requestConfig, source);
       console.error(`[AuthManager] Request successful, status: ${response.status}`);
       return response.data;
     } catch (error) {
@@ -56,4 +145,44 @@ export class AuthManager {
       throw error;
     }
   }
-}
\ No newline at end of file
+
+  private applyApiKey(requestConfig: AxiosRequestConfig, credentials: NonNullable<AuthSettings['credentials']>): void {
+    const apiKey = credentials.apiKey as string;
+
+    switch (credentials.apiKeyIn) {
+      case 'query':
+        requestConfig.params = { ...requestConfig.params, [credentials.apiKeyName]: apiKey };
+        break;
+
+      case 'cookie': {
+        const headers = requestConfig.headers as Record<string, string>;
+        const cookieHeader = Object.keys(headers).find(key => key.toLowerCase() === 'cookie') || 'Cookie';
+        const cookie = `${credentials.apiKeyName}=${encodeURIComponent(apiKey)}`;
+        headers[cookieHeader] = headers[cookieHeader] ? `${headers[cookieHeader]}; ${cookie}` : cookie;
+        break;
+      }
+
+      default:
+        requestConfig.headers![credentials.apiKeyHeader || 'X-API-Key'] = apiKey;
+    }
+  }
+
+  private getTokenProvider(auth: AuthSettings): OAuth2TokenProvider {
+    let provider = this.tokenProviders.get(auth);
+    if (!provider) {
+      provider = new OAuth2TokenProvider({
+        grantType: auth.type === 'oauth2Password' ? 'password' : 'client_credentials',
+        tokenUrl: auth.credentials?.tokenUrl,
+        clientId: auth.credentials?.clientId,
+        clientSecret: auth.credentials?.clientSecret,
+        clientAuth: auth.credentials?.clientAuth || 'body',
+        scopes: auth.credentials?.scopes || [],
+        audience: auth.credentials?.audience,
+        username: auth.credentials?.username,
+        password: auth.credentials?.password,
+      });
+      this.tokenProviders.set(auth, provider);
+    }
+    return provider;
+  }
+}
@@ -0,0 +1,482 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { dirname, resolve } from 'path';
+import { AuthManager } from './auth.js';
+import { AuthSettings, Config } from './config.js';
+import { ExampleGenerator } from './example-generator.js';
+import { getRequestBodySchema, resolveParameters } from './operation-schemas.js';
+import { SchemaExpander } from './schema-expander.js';
+import { findDefiningSource, resolveServerUrl } from './server-url.js';
+import { EndpointInfo } from './swagger-fetcher.js';
+import { LoadedSpec } from './workspace.js';
+
+export type CollectionFormat = 'postman' | 'http';
+
+export interface ExportOptions {
+  format: CollectionFormat;
+  name: string;
+}
+
+export interface ExportedCollection {
+  format: CollectionFormat;
+  operations: number;
+  variables: string[];
+  warnings: string[];
+  content: string;
+}
+
+interface ExportedParameter {
+  name: string;
+  value: string;
+  required: boolean;
+  description?: string;
+}
+
+interface FormField {
+  name: string;
+  value: string;
+  file?: boolean;
+}
+
+interface ExportedBody {
+  kind: 'json' | 'form' | 'multipart' | 'text';
+  contentType: string;
+  value: any;
+  fields: FormField[];
+}
+
+interface ExportedOperation {
+  endpoint: EndpointInfo;
+  name: string;
+  baseUrl: string; // Variable holding the server URL
+  path: ExportedParameter[];
+  query: ExportedParameter[];
+  headers: ExportedParameter[];
+  body?: ExportedBody;
+  auth: AuthSettings;
+}
+
+interface Folder {
+  name: string;
+  description?: string;
+  operations: ExportedOperation[];
+}
+
+const POSTMAN_SCHEMA = 'https://schema.getpostman.com/json/collection/v2.1.0/collection.json';
+const FALLBACK_BASE_URL = 'https://api.example.com';
+const MULTIPART_BOUNDARY = 'ExportBoundary';
+
+function bodyKind(contentType: string): ExportedBody['kind'] {
+  if (/json/i.test(contentType)) {
+    return 'json';
+  }
+  if (/x-www-form-urlencoded/i.test(contentType)) {
+    return 'form';
+  }
+  if (/multipart\/form-data/i.test(contentType)) {
+    return 'multipart';
+  }
+  return 'text';
+}
+
+function stringValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+// "X-Tenant-Id" becomes "xTenantId"
+function variableName(text: string): string {
+  const words = text.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  return words.map((word, index) => index === 0 ? word.toLowerCase() : word[0].toUpperCase() + word.slice(1).toLowerCase()).join('');
+}
+
+function postmanValues(entries: Record<string, string>): Array<{ key: string; value: string; type: string }> {
+  return Object.entries(entries).map(([key, value]) => ({ key, value, type: 'string' }));
+}
+
+// Variables each auth type reads its secrets from; their values are left empty in the export
+function authVariables(auth: AuthSettings): string[] {
+  const variables = Object.keys(auth.headers || {}).map(variableName);
+  switch (auth.type) {
+    case 'basic':
+      return [...variables, 'username', 'password'];
+    case 'bearer':
+      return [...variables, 'authToken'];
+    case 'apiKey':
+      return [...variables, 'apiKey'];
+    case 'oauth2ClientCredentials':
+      return [...variables, 'clientId', 'clientSecret', 'accessToken'];
+    case 'oauth2Password':
+      return [...variables, 'clientId', 'clientSecret', 'username', 'password', 'accessToken'];
+    default:
+      return variables;
+  }
+}
+
+// Converts a loaded spec's operations into a Postman v2.1 collection or a .http file, one folder per tag
+export class CollectionExporter {
+  private authManager: AuthManager;
+
+  constructor(private config: Config) {
+    this.authManager = new AuthManager(config);
+  }
+
+  export(spec: LoadedSpec, endpoints: EndpointInfo[], options: ExportOptions): ExportedCollection {
+    const warnings: string[] = [];
+    const baseUrls = new Map<string, string>(); // Server URL to variable name
+    const examples = new ExampleGenerator(spec.doc, { seed: 1, includeOptional: true });
+
+    const operations = endpoints.map(endpoint => {
+      const source = findDefiningSource(spec, endpoint);
+      let url: string;
+      try {
+        url = resolveServerUrl(spec, endpoint);
+      } catch (error) {
+        url = FALLBACK_BASE_URL;
+        warnings.push(`${endpoint.method} ${endpoint.path}: ${error instanceof Error ? error.message : error} Using ${FALLBACK_BASE_URL}; set the base URL variable before sending.`);
+      }
+      if (!baseUrls.has(url)) {
+        const taken = new Set(baseUrls.values());
+        let name = baseUrls.size === 0 ? 'baseUrl' : `${variableName(source || 'server')}BaseUrl`;
+        for (let suffix = 2; taken.has(name); suffix++) {
+          name = `${variableName(source || 'server')}BaseUrl${suffix}`;
+        }
+        baseUrls.set(url, name);
+      }
+      return this.exportOperation(spec, endpoint, examples, baseUrls.get(url)!, this.authManager.resolveAuth(url, source));
+    });
+
+    const variables: Record<string, string> = Object.fromEntries(Array.from(baseUrls.entries()).map(([url, name]) => [name, url]));
+    for (const operation of operations) {
+      for (const name of authVariables(operation.auth)) {
+        variables[name] = '';
+      }
+    }
+
+    const folders = this.groupByTag(spec, operations);
+    const content = options.format === 'postman'
+      ? JSON.stringify(this.postman(spec, options.name, folders, variables), null, 2)
+      : this.httpFile(options.name, folders, variables);
+
+    return {
+      format: options.format,
+      operations: operations.length,
+      variables: Object.keys(variables),
+      warnings,
+      content,
+    };
+  }
+
+  async save(collection: ExportedCollection, outputPath: string): Promise<string> {
+    const target = resolve(outputPath);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, collection.content, 'utf-8');
+    return target;
+  }
+
+  private exportOperation(spec: LoadedSpec, endpoint: EndpointInfo, examples: ExampleGenerator, baseUrl: string, auth: AuthSettings): ExportedOperation {
+    const generated = examples.forOperation(endpoint);
+    const parameters = resolveParameters(spec.doc, endpoint);
+    const collect = (location: string): ExportedParameter[] => parameters
+      .filter(parameter => parameter.in === location)
+      .flatMap(parameter => {
+        const value = generated.parameters[location]?.[parameter.name];
+        return (Array.isArray(value) ? value : [value]).map(item => ({
+          name: parameter.name,
+          value: item === undefined ? '' : stringValue(item),
+          required: location === 'path' || !!parameter.required,
+          ...(parameter.description ? { description: parameter.description } : {}),
+        }));
+      });
+
+    let body: ExportedBody | undefined;
+    if (generated.request) {
+      const { contentType, example } = generated.request;
+      const kind = bodyKind(contentType);
+      body = {
+        kind,
+        contentType,
+        value: example,
+        fields: (kind === 'form' || kind === 'multipart') && example && typeof example === 'object'
+          ? this.formFields(spec, endpoint, contentType, example)
+          : [],
+      };
+    }
+
+    return {
+      endpoint,
+      name: endpoint.summary || endpoint.operationId || `${endpoint.method} ${endpoint.path}`,
+      baseUrl,
+      path: collect('path'),
+      query: collect('query'),
+      headers: collect('header'),
+      ...(body ? { body } : {}),
+      auth,
+    };
+  }
+
+  private formFields(spec: LoadedSpec, endpoint: EndpointInfo, contentType: string, value: Record<string, any>): FormField[] {
+    let schema = getRequestBodySchema(spec.doc, endpoint, contentType)?.schema;
+    if (typeof schema?.$ref === 'string') {
+      schema = new SchemaExpander(spec.doc, { mode: 'none', maxDepth: 0 }).resolveRef(schema.$ref);
+    }
+    return Object.entries(value).map(([name, field]) => {
+      const format = schema?.properties?.[name]?.format;
+      return format === 'binary' || format === 'base64'
+        ? { name, value: `path/to/${name}`, file: true }
+        : { name, value: stringValue(field) };
+    });
+  }
+
+  // Operations go in the folder of their first tag, in the order the spec declares its tags
+  private groupByTag(spec: LoadedSpec, operations: ExportedOperation[]): Folder[] {
+    const folders = new Map<string, Folder>();
+    for (const tag of spec.doc.tags || []) {
+      folders.set(tag.name, { name: tag.name, ...(tag.description ? { description: tag.description } : {}), operations: [] });
+    }
+    const untagged: Folder = { name: '', operations: [] };
+
+    for (const operation of operations) {
+      const tag = operation.endpoint.tags?.[0];
+      if (!tag) {
+        untagged.operations.push(operation);
+        continue;
+      }
+      const folder = folders.get(tag) || { name: tag, operations: [] };
+      folder.operations.push(operation);
+      folders.set(tag, folder);
+    }
+    return [...Array.from(folders.values()).filter(folder => folder.operations.length > 0), ...(untagged.operations.length > 0 ? [untagged] : [])];
+  }
+
+  private postman(spec: LoadedSpec, name: string, folders: Folder[], variables: Record<string, string>): any {
+    const defaultAuth = folders[0]?.operations[0]?.auth;
+    const collectionAuth = defaultAuth ? this.postmanAuth(defaultAuth) : undefined;
+
+    const items = folders.flatMap(folder => {
+      const requests = folder.operations.map(operation => this.postmanItem(operation, collectionAuth));
+      return folder.name
+        ? [{ name: folder.name, ...(folder.description ? { description: folder.description } : {}), item: requests }]
+        : requests;
+    });
+
+    return {
+      info: {
+        name,
+        ...(spec.doc.info?.description ? { description: spec.doc.info.description } : {}),
+        schema: POSTMAN_SCHEMA,
+      },
+      item: items,
+      ...(collectionAuth ? { auth: collectionAuth } : {}),
+      variable: Object.entries(variables).map(([key, value]) => ({ key, value, type: 'string' })),
+    };
+  }
+
+  private postmanItem(operation: ExportedOperation, collectionAuth: any): any {
+    const { endpoint } = operation;
+    const segments = endpoint.path.split('/').filter(Boolean).map(segment => segment.replace(/\{([^}]+)\}/g, ':$1'));
+    const query = operation.query.map(parameter => ({
+      key: parameter.name,
+      value: parameter.value,
+      ...(parameter.description ? { description: parameter.description } : {}),
+      ...(parameter.required ? {} : { disabled: true }),
+    }));
+    const enabledQuery = query.filter(parameter => !parameter.disabled);
+    const headers = operation.headers.map(parameter => ({
+      key: parameter.name,
+      value: parameter.value,
+      ...(parameter.description ? { description: parameter.description } : {}),
+      ...(parameter.required ? {} : { disabled: true }),
+    }));
+
+    const body = operation.body;
+    if (body && body.kind !== 'multipart') {
+      headers.push({ key: 'Content-Type', value: body.contentType });
+    }
+    for (const header of Object.keys(operation.auth.headers || {})) {
+      headers.push({ key: header, value: `{{${variableName(header)}}}` });
+    }
+
+    // Requests only carry auth when it differs from the collection's
+    const auth = this.postmanAuth(operation.auth);
+    const sameAuth = JSON.stringify(auth) === JSON.stringify(collectionAuth);
+
+    return {
+      name: operation.name,
+      request: {
+        method: endpoint.method,
+        header: headers,
+        url: {
+          raw: `{{${operation.baseUrl}}}/${segments.join('/')}${enabledQuery.length > 0 ? `?${enabledQuery.map(parameter => `${parameter.key}=${parameter.value}`).join('&')}` : ''}`,
+          host: [`{{${operation.baseUrl}}}`],
+          path: segments,
+          ...(query.length > 0 ? { query } : {}),
+          ...(operation.path.length > 0 ? {
+            variable: operation.path.map(parameter => ({
+              key: parameter.name,
+              value: parameter.value,
+              ...(parameter.description ? { description: parameter.description } : {}),
+            })),
+          } : {}),
+        },
+        ...(body ? { body: this.postmanBody(body) } : {}),
+        ...(auth && !sameAuth ? { auth } : {}),
+        ...(endpoint.description ? { description: endpoint.description } : {}),
+      },
+      response: [],
+    };
+  }
+
+  private postmanBody(body: ExportedBody): any {
+    switch (body.kind) {
+      case 'json':
+        return { mode: 'raw', raw: JSON.stringify(body.value, null, 2), options: { raw: { language: 'json' } } };
+      case 'form':
+        return { mode: 'urlencoded', urlencoded: body.fields.map(field => ({ key: field.name, value: field.value, type: 'text' })) };
+      case 'multipart':
+        return {
+          mode: 'formdata',
+          formdata: body.fields.map(field => field.file
+            ? { key: field.name, type: 'file', src: field.value }
+            : { key: field.name, value: field.value, type: 'text' }),
+        };
+      default:
+        return { mode: 'raw', raw: stringValue(body.value) };
+    }
+  }
+
+  private postmanAuth(auth: AuthSettings): any {
+    const credentials = auth.credentials;
+    switch (auth.type) {
+      case 'basic':
+        return { type: 'basic', basic: postmanValues({ username: '{{username}}', password: '{{password}}' }) };
+      case 'bearer':
+        return { type: 'bearer', bearer: postmanValues({ token: '{{authToken}}' }) };
+      case 'apiKey':
+        // Postman has no cookie placement, so cookie keys are sent as a Cookie header
+        return credentials?.apiKeyIn === 'cookie'
+          ? { type: 'apikey', apikey: postmanValues({ key: 'Cookie', value: `${credentials.apiKeyName}={{apiKey}}`, in: 'header' }) }
+          : {
+            type: 'apikey',
+            apikey: postmanValues(credentials?.apiKeyIn === 'query'
+              ? { key: credentials.apiKeyName, value: '{{apiKey}}', in: 'query' }
+              : { key: credentials?.apiKeyHeader || 'X-API-Key', value: '{{apiKey}}', in: 'header' }),
+          };
+      case 'oauth2ClientCredentials':
+      case 'oauth2Password':
+        return {
+          type: 'oauth2',
+          oauth2: postmanValues({
+            grant_type: auth.type === 'oauth2Password' ? 'password_credentials' : 'client_credentials',
+            accessTokenUrl: credentials?.tokenUrl || '',
+            clientId: '{{clientId}}',
+            clientSecret: '{{clientSecret}}',
+            ...(auth.type === 'oauth2Password' ? { username: '{{username}}', password: '{{password}}' } : {}),
+            ...(credentials?.scopes?.length ? { scope: credentials.scopes.join(' ') } : {}),
+            addTokenTo: 'header',
+          }),
+        };
+      default:
+        return { type: 'noauth' };
+    }
+  }
+
+  // VS Code REST Client / JetBrains HTTP Client format
+  private httpFile(name: string, folders: Folder[], variables: Record<string, string>): string {
+    const lines = [`# ${name}`, ''];
+    for (const [key, value] of Object.entries(variables)) {
+      lines.push(`@${key} = ${value}`);
+    }
+
+    const tokenUrls = new Set(folders.flatMap(folder => folder.operations)
+      .filter(operation => operation.auth.type === 'oauth2ClientCredentials' || operation.auth.type === 'oauth2Password')
+      .map(operation => operation.auth.credentials?.tokenUrl || 'the authorization server'));
+    for (const tokenUrl of tokenUrls) {
+      lines.push(`# accessToken: OAuth2 access token from ${tokenUrl}`);
+    }
+
+    for (const folder of folders) {
+      if (folder.name) {
+        lines.push('', `### ${folder.name}`);
+        if (folder.description) {
+          lines.push(...folder.description.split('\n').map(line => `# ${line}`));
+        }
+      }
+      for (const operation of folder.operations) {
+        lines.push('', ...this.httpRequest(operation));
+      }
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  private httpRequest(operation: ExportedOperation): string[] {
+    const { endpoint, auth } = operation;
+    const lines = [`### ${operation.name}`];
+    if (endpoint.operationId) {
+      lines.push(`# @name ${endpoint.operationId.replace(/[^A-Za-z0-9_]/g, '_')}`);
+    }
+    const optional = operation.query.filter(parameter => !parameter.required);
+    if (optional.length > 0) {
+      lines.push(`# Optional query parameters: ${Array.from(new Set(optional.map(parameter => parameter.name))).join(', ')}`);
+    }
+
+    let path = endpoint.path;
+    for (const parameter of operation.path) {
+      path = path.replace(`{${parameter.name}}`, encodeURIComponent(parameter.value));
+    }
+    const query = operation.query
+      .filter(parameter => parameter.required)
+      .map(parameter => `${encodeURIComponent(parameter.name)}=${encodeURIComponent(parameter.value)}`);
+
+    const headers = operation.headers.filter(parameter => parameter.required).map(parameter => `${parameter.name}: ${parameter.value}`);
+    for (const header of Object.keys(auth.headers || {})) {
+      headers.push(`${header}: {{${variableName(header)}}}`);
+    }
+    switch (auth.type) {
+      case 'basic':
+        headers.push('Authorization: Basic {{username}} {{password}}');
+        break;
+      case 'bearer':
+        headers.push('Authorization: Bearer {{authToken}}');
+        break;
+      case 'apiKey':
+        if (auth.credentials?.apiKeyIn === 'query') {
+          query.push(`${encodeURIComponent(auth.credentials.apiKeyName)}={{apiKey}}`);
+        } else if (auth.credentials?.apiKeyIn === 'cookie') {
+          headers.push(`Cookie: ${auth.credentials.apiKeyName}={{apiKey}}`);
+        } else {
+          headers.push(`${auth.credentials?.apiKeyHeader || 'X-API-Key'}: {{apiKey}}`);
+        }
+        break;
+      case 'oauth2ClientCredentials':
+      case 'oauth2Password':
+        headers.push('Authorization: Bearer {{accessToken}}');
+        break;
+    }
+
+    const body = operation.body;
+    if (body) {
+      headers.push(`Content-Type: ${body.kind === 'multipart' ? `multipart/form-data; boundary=${MULTIPART_BOUNDARY}` : body.contentType}`);
+    }
+
+    lines.push(`${endpoint.method} {{${operation.baseUrl}}}${path}${query.length > 0 ? `?${query.join('&')}` : ''}`, ...headers);
+
+    if (body?.kind === 'json') {
+      lines.push('', JSON.stringify(body.value, null, 2));
+    } else if (body?.kind === 'form') {
+      lines.push('', body.fields.map(field => `${encodeURIComponent(field.name)}=${encodeURIComponent(field.value)}`).join('&'));
+    } else if (body?.kind === 'multipart') {
+      lines.push('');
+      for (const field of body.fields) {
+        lines.push(`--${MULTIPART_BOUNDARY}`);
+        if (field.file) {
+          lines.push(`Content-Disposition: form-data; name="${field.name}"; filename="${field.value.split('/').pop()}"`, '', `< ./${field.value}`);
+        } else {
+          lines.push(`Content-Disposition: form-data; name="${field.name}"`, '', field.value);
+        }
+      }
+      lines.push(`--${MULTIPART_BOUNDARY}--`);
+    } else if (body) {
+      lines.push('', stringValue(body.value));
+    }
+    return lines;
+  }
+}
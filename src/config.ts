@@ -1,37 +1,350 @@
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { parseArgs } from 'util';
+import * as YAML from 'yaml';
 import { z } from 'zod';
 
+const AuthSchema = z.object({
+  type: z.enum(['none', 'basic', 'bearer', 'apiKey', 'oauth2ClientCredentials', 'oauth2Password']),
+  credentials: z.object({
+    username: z.string().optional(),
+    password: z.string().optional(),
+    token: z.string().optional(),
+    apiKey: z.string().optional(),
+    apiKeyHeader: z.string().default('X-API-Key'),
+    apiKeyIn: z.enum(['header', 'query', 'cookie']).default('header'),
+    apiKeyName: z.string().default('api_key'), // Query parameter or cookie name when apiKeyIn is not 'header'
+    tokenUrl: z.string().optional(),
+    clientId: z.string().optional(),
+    clientSecret: z.string().optional(),
+    clientAuth: z.enum(['body', 'basic']).default('body'), // How the client credentials are sent to the token endpoint
+    scopes: z.array(z.string()).default([]),
+    audience: z.string().optional(),
+  }).strict().optional(),
+  headers: z.record(z.string()).default({}), // Extra headers sent with every request
+}).strict();
+
+// First matching rule wins; a rule with both host and source must match both
+const AuthRuleSchema = AuthSchema.extend({
+  host: z.string().optional(), // Exact host or "*.example.com" pattern
+  source: z.string().optional(), // Source name as listed in swagger-config.json urls
+}).refine(rule => rule.host || rule.source, { message: 'Auth rules need a host or a source' });
+
 const ConfigSchema = z.object({
-  swaggerUrl: z.string().url().optional(),
-  auth: z.object({
-    type: z.enum(['none', 'basic', 'bearer', 'apiKey']),
-    credentials: z.object({
-      username: z.string().optional(),
-      password: z.string().optional(),
-      token: z.string().optional(),
-      apiKey: z.string().optional(),
-      apiKeyHeader: z.string().default('X-API-Key'),
-    }).optional(),
-  }).default({ type: 'none' }),
+  swaggerUrl: z.string().optional(), // HTTP(S) URL, file:// URL, or local file/directory path
+  specs: z.array(z.object({
+    name: z.string().min(1),
+    url: z.string().min(1),
+  })).default([]), // Named specs preloaded into the workspace at startup
+  auth: AuthSchema.default({ type: 'none' }),
+  authRules: z.array(AuthRuleSchema).default([]), // Per-host or per-source overrides of auth
   cacheTTL: z.number().default(300000), // 5 minutes in milliseconds
-});
+  cacheDir: z.string().optional(), // Persist fetched documents here so restarts can revalidate instead of re-downloading
+  watchInterval: z.number().int().refine(interval => interval === 0 || interval >= 1000, {
+    message: 'Must be 0 (watching off) or at least 1000 milliseconds',
+  }).default(0), // Re-fetch loaded specs this often and notify clients of changes
+  callEndpoint: z.object({
+    allowedMethods: z.array(z.string()).default(['GET', 'HEAD', 'OPTIONS'])
+      .transform(methods => methods.map(method => method.toUpperCase())),
+    allowedHosts: z.array(z.string()).default([]), // Empty means only hosts declared by the spec
+    timeout: z.number().default(10000),
+    maxResponseLength: z.number().default(10000),
+  }).strict().default({}),
+  server: z.object({
+    transport: z.enum(['stdio', 'http']).default('stdio'), // 'http' serves Streamable HTTP at /mcp and legacy SSE at /sse
+    host: z.string().default('127.0.0.1'),
+    port: z.number().int().min(0).max(65535).default(3000),
+    authToken: z.string().optional(), // Bearer token HTTP clients must send; no check when unset
+    allowedHosts: z.array(z.string()).default([]), // Host and Origin names accepted; empty means loopback names when bound to loopback
+    sessionTimeout: z.number().int().min(0).default(1800000), // Idle Streamable HTTP sessions are closed after this many ms; 0 keeps them
+  }).strict().default({}),
+}).strict();
 
 export type Config = z.infer<typeof ConfigSchema>;
+export type AuthSettings = z.infer<typeof AuthSchema>;
+
+// Where the active configuration came from, for get_config and error reports
+export interface ConfigOrigin {
+  file?: string;
+  profile?: string;
+  profiles: string[];
+  environment: string[]; // Variables that were set and override file values
+}
+
+export interface LoadedConfig {
+  config: Config;
+  origin: ConfigOrigin;
+}
+
+export class ConfigError extends Error {
+  constructor(message: string, public issues: string[] = []) {
+    super(issues.length > 0 ? `${message}\n${issues.map(issue => `  - ${issue}`).join('\n')}` : message);
+    this.name = 'ConfigError';
+  }
+}
+
+interface EnvironmentVariable {
+  name: string;
+  path: string; // Dotted path in the config the variable sets
+  parse?: (value: string) => unknown;
+}
+
+const ENVIRONMENT_VARIABLES: EnvironmentVariable[] = [
+  { name: 'SWAGGER_URL', path: 'swaggerUrl' },
+  { name: 'SWAGGER_SPECS', path: 'specs', parse: parseSpecList },
+  { name: 'AUTH_TYPE', path: 'auth.type' },
+  { name: 'AUTH_USERNAME', path: 'auth.credentials.username' },
+  { name: 'AUTH_PASSWORD', path: 'auth.credentials.password' },
+  { name: 'AUTH_TOKEN', path: 'auth.credentials.token' },
+  { name: 'API_KEY', path: 'auth.credentials.apiKey' },
+  { name: 'API_KEY_HEADER', path: 'auth.credentials.apiKeyHeader' },
+  { name: 'API_KEY_IN', path: 'auth.credentials.apiKeyIn' },
+  { name: 'API_KEY_NAME', path: 'auth.credentials.apiKeyName' },
+  { name: 'OAUTH_TOKEN_URL', path: 'auth.credentials.tokenUrl' },
+  { name: 'OAUTH_CLIENT_ID', path: 'auth.credentials.clientId' },
+  { name: 'OAUTH_CLIENT_SECRET', path: 'auth.credentials.clientSecret' },
+  { name: 'OAUTH_CLIENT_AUTH', path: 'auth.credentials.clientAuth' },
+  { name: 'OAUTH_SCOPES', path: 'auth.credentials.scopes', parse: value => parseList(value.replace(/\s+/g, ',')) },
+  { name: 'OAUTH_AUDIENCE', path: 'auth.credentials.audience' },
+  { name: 'AUTH_HEADERS', path: 'auth.headers', parse: value => parseJsonVariable('AUTH_HEADERS', value) },
+  { name: 'AUTH_RULES', path: 'authRules', parse: value => parseJsonVariable('AUTH_RULES', value) },
+  { name: 'CACHE_TTL', path: 'cacheTTL', parse: Number },
+  { name: 'CACHE_DIR', path: 'cacheDir' },
+  { name: 'WATCH_INTERVAL', path: 'watchInterval', parse: Number },
+  { name: 'CALL_ALLOWED_METHODS', path: 'callEndpoint.allowedMethods', parse: parseList },
+  { name: 'CALL_ALLOWED_HOSTS', path: 'callEndpoint.allowedHosts', parse: parseList },
+  { name: 'CALL_TIMEOUT', path: 'callEndpoint.timeout', parse: Number },
+  { name: 'CALL_MAX_RESPONSE_LENGTH', path: 'callEndpoint.maxResponseLength', parse: Number },
+  { name: 'MCP_TRANSPORT', path: 'server.transport' },
+  { name: 'MCP_HOST', path: 'server.host' },
+  { name: 'MCP_PORT', path: 'server.port', parse: Number },
+  { name: 'MCP_AUTH_TOKEN', path: 'server.authToken' },
+  { name: 'MCP_ALLOWED_HOSTS', path: 'server.allowedHosts', parse: parseList },
+  { name: 'MCP_SESSION_TIMEOUT', path: 'server.sessionTimeout', parse: Number },
+];
+
+// Keys whose values get_config never shows
+const SECRET_KEYS = new Set(['password', 'token', 'apiKey', 'clientSecret', 'authToken']);
+
+function parseList(value: string): string[] {
+  return value.split(',').map(entry => entry.trim()).filter(Boolean);
+}
+
+// SWAGGER_SPECS format: "name=url,name=url"
+function parseSpecList(value: string): Array<{ name: string; url: string }> {
+  return parseList(value).map(entry => {
+    const separator = entry.indexOf('=');
+    if (separator === -1) {
+      throw new ConfigError(`Invalid SWAGGER_SPECS entry '${entry}', expected name=url`);
+    }
+    return {
+      name: entry.slice(0, separator).trim(),
+      url: entry.slice(separator + 1).trim(),
+    };
+  });
+}
+
+// JSON-valued variables: AUTH_HEADERS is an object, AUTH_RULES an array
+function parseJsonVariable(name: string, value: string): unknown {
+  try {
+    return JSON.parse(value);
+  } catch (error) {
+    throw new ConfigError(`Invalid ${name}, expected JSON: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function setPath(target: Record<string, any>, path: string, value: unknown): void {
+  const keys = path.split('.');
+  let current = target;
+  for (const key of keys.slice(0, -1)) {
+    current[key] = isPlainObject(current[key]) ? current[key] : {};
+    current = current[key];
+  }
+  current[keys[keys.length - 1]] = value;
+}
 
-export function loadConfig(): Config {
-  const config: Config = {
-    swaggerUrl: process.env.SWAGGER_URL,
-    auth: {
-      type: (process.env.AUTH_TYPE as any),
-      credentials: {
-        username: process.env.AUTH_USERNAME,
-        password: process.env.AUTH_PASSWORD,
-        token: process.env.AUTH_TOKEN,
-        apiKey: process.env.API_KEY,
-        apiKeyHeader: process.env.API_KEY_HEADER || 'X-API-Key',
+// Objects merge key by key; arrays and scalars from the override replace the base
+function deepMerge(base: Record<string, any>, override: Record<string, any>): Record<string, any> {
+  const merged = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = isPlainObject(value) && isPlainObject(merged[key]) ? deepMerge(merged[key], value) : value;
+  }
+  return merged;
+}
+
+// Replaces ${NAME} and ${NAME:-fallback} in every string; $${NAME} stays literal
+function interpolate(value: unknown, path: string, env: NodeJS.ProcessEnv, issues: string[]): unknown {
+  if (typeof value === 'string') {
+    return value.replace(/\$?\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/g, (match, name: string, fallback?: string) => {
+      if (match.startsWith('$$')) {
+        return match.slice(1);
+      }
+      const resolved = env[name] ?? fallback;
+      if (resolved === undefined) {
+        issues.push(`${path}: environment variable ${name} is not set`);
+        return '';
+      }
+      return resolved;
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => interpolate(item, `${path}[${index}]`, env, issues));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, interpolate(item, path ? `${path}.${key}` : key, env, issues)]));
+  }
+  return value;
+}
+
+function readConfigFile(path: string): Record<string, any> {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf-8');
+  } catch (error) {
+    throw new ConfigError(`Cannot read config file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  let parsed: unknown;
+  try {
+    // YAML is a superset of JSON, so one parser covers both
+    parsed = YAML.parse(text);
+  } catch (error) {
+    throw new ConfigError(`Cannot parse config file ${path}: ${error instanceof Error ? error.message : error}`);
+  }
+  if (parsed === null || parsed === undefined) {
+    return {};
+  }
+  if (!isPlainObject(parsed)) {
+    throw new ConfigError(`Config file ${path} must contain an object at the top level`);
+  }
+  return parsed;
+}
+
+// Settings from the config file: top-level keys apply to every profile, the active profile's keys override them
+function fileConfig(file: Record<string, any>, requestedProfile: string | undefined, path: string): { values: Record<string, any>; profile?: string; profiles: string[] } {
+  const { profiles = {}, defaultProfile, ...shared } = file;
+  if (!isPlainObject(profiles)) {
+    throw new ConfigError(`'profiles' in ${path} must map profile names to settings`);
+  }
+  const names = Object.keys(profiles);
+  const profile = requestedProfile || defaultProfile;
+  if (!profile) {
+    return { values: shared, profiles: names };
+  }
+  if (!isPlainObject(profiles[profile])) {
+    throw new ConfigError(`Profile '${profile}' not found in ${path}. Available profiles: ${names.join(', ') || 'none'}`);
+  }
+  return { values: deepMerge(shared, profiles[profile]), profile, profiles: names };
+}
+
+function environmentConfig(env: NodeJS.ProcessEnv): { values: Record<string, any>; names: string[] } {
+  const values: Record<string, any> = {};
+  const names: string[] = [];
+  for (const variable of ENVIRONMENT_VARIABLES) {
+    const value = env[variable.name];
+    if (value === undefined || value === '') {
+      continue;
+    }
+    setPath(values, variable.path, variable.parse ? variable.parse(value) : value);
+    names.push(variable.name);
+  }
+  return { values, names };
+}
+
+function parseCommandLine(args: string[]): { config?: string; profile?: string; transport?: string; host?: string; port?: string } {
+  try {
+    return parseArgs({
+      args,
+      options: {
+        config: { type: 'string' },
+        profile: { type: 'string' },
+        transport: { type: 'string' },
+        host: { type: 'string' },
+        port: { type: 'string' },
       },
-    },
-    cacheTTL: parseInt(process.env.CACHE_TTL || '300000', 10),
-  };
+      strict: true,
+    }).values;
+  } catch (error) {
+    throw new ConfigError(`Invalid command line: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function describeIssue(issue: z.ZodIssue, fromEnvironment: Map<string, string>): string {
+  const path = issue.path.map(String).join('.');
+  const variable = fromEnvironment.get(path);
+  return `${path || '(root)'}${variable ? ` (from ${variable})` : ''}: ${issue.message}`;
+}
+
+// Precedence, lowest first: schema defaults, config file, active profile, environment variables, command-line flags.
+// The file is given with --config or MCP_CONFIG, the profile with --profile, MCP_PROFILE or the file's defaultProfile.
+export function loadConfig(args: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): LoadedConfig {
+  const commandLine = parseCommandLine(args);
+  const configPath = commandLine.config || env.MCP_CONFIG;
+  const requestedProfile = commandLine.profile || env.MCP_PROFILE;
+
+  let values: Record<string, any> = {};
+  const origin: ConfigOrigin = { profiles: [], environment: [] };
+  const issues: string[] = [];
+
+  if (configPath) {
+    origin.file = resolve(configPath);
+    const file = fileConfig(readConfigFile(origin.file), requestedProfile, origin.file);
+    values = interpolate(file.values, '', env, issues) as Record<string, any>;
+    origin.profile = file.profile;
+    origin.profiles = file.profiles;
+  } else if (requestedProfile) {
+    throw new ConfigError(`Profile '${requestedProfile}' was requested but no config file was given; pass --config or set MCP_CONFIG`);
+  }
+
+  const environment = environmentConfig(env);
+  values = deepMerge(values, environment.values);
+  origin.environment = environment.names;
+
+  const flags: Record<string, any> = {};
+  if (commandLine.transport) {
+    setPath(flags, 'server.transport', commandLine.transport);
+  }
+  if (commandLine.host) {
+    setPath(flags, 'server.host', commandLine.host);
+  }
+  if (commandLine.port) {
+    setPath(flags, 'server.port', Number(commandLine.port));
+  }
+  values = deepMerge(values, flags);
+
+  const where = [origin.file && `config file ${origin.file}`, origin.profile && `profile '${origin.profile}'`].filter(Boolean).join(', ');
+  const result = ConfigSchema.safeParse(values);
+  if (issues.length > 0 || !result.success) {
+    const fromEnvironment = new Map(ENVIRONMENT_VARIABLES.filter(variable => environment.names.includes(variable.name))
+      .map(variable => [variable.path, variable.name]));
+    throw new ConfigError(
+      `Invalid configuration${where ? ` (${where})` : ''}:`,
+      [...issues, ...(result.success ? [] : result.error.issues.map(issue => describeIssue(issue, fromEnvironment)))],
+    );
+  }
+  return { config: result.data, origin };
+}
+
+function maskUrl(value: string): string {
+  return value.replace(/(\/\/[^/:@]+:)[^/@]+@/, '$1***@');
+}
 
-  return ConfigSchema.parse(config);
-}
\ No newline at end of file
+// A copy of the config that is safe to show: credentials, extra auth header values and URL passwords are masked
+export function maskConfig(value: any, key?: string): any {
+  if (Array.isArray(value)) {
+    return value.map(item => maskConfig(item));
+  }
+  if (isPlainObject(value)) {
+    return Object.fromEntries(Object.entries(value).map(([childKey, child]) => [
+      childKey,
+      key === 'headers' && typeof child === 'string' ? '***' : maskConfig(child, childKey),
+    ]));
+  }
+  if (typeof value === 'string') {
+    return key && SECRET_KEYS.has(key) ? '***' : maskUrl(value);
+  }
+  return value;
+}
@@ -0,0 +1,121 @@
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rename, unlink, writeFile } from 'fs/promises';
+import { join } from 'path';
+
+export interface CachedDocument {
+  url: string;
+  body: string;
+  contentType?: string;
+  etag?: string;
+  lastModified?: string;
+  fetchedAt: number;
+  lastError?: string; // Set while a stale copy is served because the server was unreachable
+}
+
+// Raw documents with their validators, kept in memory and, when a directory is configured, on disk
+export class DocumentCache {
+  private entries: Map<string, CachedDocument> = new Map();
+  private loading: Promise<void> | null = null;
+
+  constructor(private directory?: string) {}
+
+  get persistent(): boolean {
+    return !!this.directory;
+  }
+
+  get location(): string | undefined {
+    return this.directory;
+  }
+
+  async get(url: string): Promise<CachedDocument | undefined> {
+    await this.ensureLoaded();
+    return this.entries.get(url);
+  }
+
+  async set(entry: CachedDocument): Promise<void> {
+    await this.ensureLoaded();
+    this.entries.set(entry.url, entry);
+    if (!this.directory) {
+      return;
+    }
+
+    // Write to a temporary file first so a crash never leaves a truncated entry behind
+    const file = this.fileFor(entry.url);
+    const temporary = `${file}.${process.pid}.tmp`;
+    try {
+      await mkdir(this.directory, { recursive: true });
+      await writeFile(temporary, JSON.stringify(entry), 'utf-8');
+      await rename(temporary, file);
+    } catch (error) {
+      console.error(`[DocumentCache] Failed to persist ${entry.url}: ${error}`);
+    }
+  }
+
+  async list(): Promise<CachedDocument[]> {
+    await this.ensureLoaded();
+    return Array.from(this.entries.values());
+  }
+
+  // Marks matching entries as expired so the next fetch revalidates them with the server
+  async expire(urlPrefix: string): Promise<void> {
+    await this.ensureLoaded();
+    for (const entry of this.entries.values()) {
+      if (entry.url.startsWith(urlPrefix)) {
+        entry.fetchedAt = 0;
+      }
+    }
+  }
+
+  // Removes entries whose URL starts with the prefix, or every entry without one
+  async clear(urlPrefix?: string): Promise<string[]> {
+    await this.ensureLoaded();
+    const removed = Array.from(this.entries.keys()).filter(url => !urlPrefix || url.startsWith(urlPrefix));
+
+    for (const url of removed) {
+      this.entries.delete(url);
+      if (this.directory) {
+        await unlink(this.fileFor(url)).catch(() => undefined);
+      }
+    }
+    return removed;
+  }
+
+  private fileFor(url: string): string {
+    const hash = createHash('sha256').update(url).digest('hex').slice(0, 32);
+    return join(this.directory as string, `${hash}.json`);
+  }
+
+  // Concurrent callers wait for the same directory scan
+  private ensureLoaded(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load(this.directory);
+    }
+    return this.loading;
+  }
+
+  private async load(directory?: string): Promise<void> {
+    if (!directory) {
+      return;
+    }
+
+    let files: string[];
+    try {
+      files = await readdir(directory);
+    } catch {
+      // The directory is created on first write
+      return;
+    }
+
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      try {
+        const entry: CachedDocument = JSON.parse(await readFile(join(directory, file), 'utf-8'));
+        if (entry?.url && typeof entry.body === 'string') {
+          this.entries.set(entry.url, entry);
+        }
+      } catch (error) {
+        console.error(`[DocumentCache] Skipping unreadable cache file ${file}: ${error}`);
+      }
+    }
+    console.error(`[DocumentCache] Loaded ${this.entries.size} cached documents from ${directory}`);
+  }
+}
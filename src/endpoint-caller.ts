@@ -0,0 +1,270 @@
+import { AxiosRequestConfig } from 'axios';
+import { AuthManager } from './auth.js';
+import { Config } from './config.js';
+import { resolveParameters } from './operation-schemas.js';
+import { SchemaExpander } from './schema-expander.js';
+import { declaredHosts, findDefiningSource, matchesHost, resolveServerUrl } from './server-url.js';
+import { EndpointInfo } from './swagger-fetcher.js';
+import { LoadedSpec } from './workspace.js';
+
+export interface CallInput {
+  pathParams?: Record<string, any>;
+  query?: Record<string, any>;
+  headers?: Record<string, string>;
+  cookies?: Record<string, any>;
+  body?: any;
+  contentType?: string;
+  baseUrl?: string;
+  timeout?: number;
+}
+
+export interface PreparedRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  params: Record<string, any>;
+  body?: any;
+  source?: string; // swagger-config source defining the operation, used to pick auth rules
+  warnings: string[];
+}
+
+const SENSITIVE_HEADERS = ['authorization', 'cookie', 'proxy-authorization'];
+
+export class EndpointCaller {
+  private authManager: AuthManager;
+
+  constructor(private config: Config) {
+    this.authManager = new AuthManager(config);
+  }
+
+  prepare(spec: LoadedSpec, endpoint: EndpointInfo, input: CallInput): PreparedRequest {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const parameters = this.collectParameters(spec, endpoint);
+    const pathParams = input.pathParams || {};
+    const query = input.query || {};
+    const headers: Record<string, string> = { ...input.headers };
+    const cookies = input.cookies || {};
+
+    const suppliedByLocation: Record<string, Record<string, any>> = {
+      path: pathParams,
+      query,
+      header: headers,
+      cookie: cookies,
+    };
+
+    for (const parameter of parameters) {
+      if (parameter.in === 'body' || parameter.in === 'formData') {
+        continue;
+      }
+      const supplied = suppliedByLocation[parameter.in] || {};
+      const value = parameter.in === 'header'
+        ? Object.entries(supplied).find(([key]) => key.toLowerCase() === parameter.name.toLowerCase())?.[1]
+        : supplied[parameter.name];
+
+      if (value === undefined) {
+        if (parameter.required || parameter.in === 'path') {
+          errors.push(`Missing required ${parameter.in} parameter '${parameter.name}'`);
+        }
+        continue;
+      }
+
+      const typeError = this.checkType(parameter, value);
+      if (typeError) {
+        errors.push(typeError);
+      }
+    }
+
+    for (const name of Object.keys(pathParams)) {
+      if (!parameters.some(parameter => parameter.in === 'path' && parameter.name === name)) {
+        errors.push(`Unknown path parameter '${name}'`);
+      }
+    }
+    for (const name of Object.keys(query)) {
+      if (!parameters.some(parameter => parameter.in === 'query' && parameter.name === name)) {
+        warnings.push(`Query parameter '${name}' is not declared by the operation`);
+      }
+    }
+    for (const name of Object.keys(cookies)) {
+      if (!parameters.some(parameter => parameter.in === 'cookie' && parameter.name === name)) {
+        warnings.push(`Cookie '${name}' is not declared by the operation`);
+      }
+    }
+
+    const bodyRequired = endpoint.requestBody?.required
+      || parameters.some(parameter => parameter.in === 'body' && parameter.required);
+    if (bodyRequired && input.body === undefined) {
+      errors.push('Missing required request body');
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Invalid request for ${endpoint.method} ${endpoint.path}:\n- ${errors.join('\n- ')}`);
+    }
+
+    let path = endpoint.path;
+    for (const [name, value] of Object.entries(pathParams)) {
+      path = path.replace(`{${name}}`, encodeURIComponent(String(value)));
+    }
+    const unresolved = path.match(/\{[^}]+\}/g);
+    if (unresolved) {
+      throw new Error(`Invalid request for ${endpoint.method} ${endpoint.path}: no value for path template ${unresolved.join(', ')}`);
+    }
+    const baseUrl = (input.baseUrl || resolveServerUrl(spec, endpoint)).replace(/\/+$/, '');
+
+    // Cookie parameters join any Cookie header given explicitly; an API key cookie is appended when auth is applied
+    const cookie = Object.entries(cookies)
+      .map(([name, value]) => `${name}=${Array.isArray(value) ? value.map(item => encodeURIComponent(String(item))).join(',') : encodeURIComponent(String(value))}`)
+      .join('; ');
+    if (cookie) {
+      const cookieHeader = Object.keys(headers).find(key => key.toLowerCase() === 'cookie') || 'Cookie';
+      headers[cookieHeader] = headers[cookieHeader] ? `${headers[cookieHeader]}; ${cookie}` : cookie;
+    }
+
+    if (input.body !== undefined) {
+      const contentType = input.contentType || this.defaultContentType(spec, endpoint);
+      if (!Object.keys(headers).some(key => key.toLowerCase() === 'content-type')) {
+        headers['Content-Type'] = contentType;
+      }
+    }
+
+    return {
+      method: endpoint.method,
+      url: `${baseUrl}${path}`,
+      headers,
+      params: query,
+      body: input.body,
+      source: findDefiningSource(spec, endpoint),
+      warnings,
+    };
+  }
+
+  // Returns why the request may not be sent, or null when it is allowed
+  checkAllowed(spec: LoadedSpec, prepared: PreparedRequest): string | null {
+    const { allowedMethods, allowedHosts } = this.config.callEndpoint;
+
+    if (!allowedMethods.includes(prepared.method)) {
+      return `Method ${prepared.method} is not allowed. Allowed methods: ${allowedMethods.join(', ')} (configure CALL_ALLOWED_METHODS to change)`;
+    }
+
+    const url = new URL(prepared.url);
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return `Protocol ${url.protocol} is not allowed`;
+    }
+
+    const host = url.host.toLowerCase();
+    const hostPatterns = allowedHosts.length > 0 ? allowedHosts : declaredHosts(spec);
+    if (!hostPatterns.some(pattern => matchesHost(host, pattern) || matchesHost(url.hostname.toLowerCase(), pattern))) {
+      return `Host ${host} is not allowed. Allowed hosts: ${hostPatterns.join(', ') || 'none'} (configure CALL_ALLOWED_HOSTS to change)`;
+    }
+
+    return null;
+  }
+
+  describe(prepared: PreparedRequest): Record<string, any> {
+    const requestConfig = this.authManager.applyAuth({
+      url: prepared.url,
+      headers: { ...prepared.headers },
+      params: { ...prepared.params },
+    }, prepared.source);
+    const secrets = this.authManager.secretFields(prepared.url, prepared.source);
+    return {
+      method: prepared.method,
+      url: prepared.url,
+      params: this.maskFields(requestConfig.params, secrets.params),
+      headers: this.maskFields(requestConfig.headers as Record<string, string>, [...SENSITIVE_HEADERS, ...secrets.headers]),
+      body: prepared.body,
+    };
+  }
+
+  async execute(prepared: PreparedRequest, timeout?: number): Promise<Record<string, any>> {
+    const { maxResponseLength } = this.config.callEndpoint;
+    const requestConfig: AxiosRequestConfig = {
+      method: prepared.method,
+      url: prepared.url,
+      headers: { ...prepared.headers },
+      params: prepared.params,
+      data: prepared.body,
+      timeout: Math.min(timeout || this.config.callEndpoint.timeout, this.config.callEndpoint.timeout),
+      responseType: 'text',
+      // Report every status to the caller instead of throwing
+      validateStatus: () => true,
+      maxRedirects: 0,
+    };
+
+    console.error(`[EndpointCaller] ${prepared.method} ${prepared.url}`);
+    const startedAt = Date.now();
+    const response = await this.authManager.request(requestConfig, prepared.source);
+    console.error(`[EndpointCaller] Response status: ${response.status}`);
+
+    const rawBody = typeof response.data === 'string' ? response.data : JSON.stringify(response.data);
+    const truncated = rawBody.length > maxResponseLength;
+    const bodyText = truncated ? rawBody.substring(0, maxResponseLength) : rawBody;
+
+    let body: any = bodyText;
+    if (!truncated) {
+      try {
+        body = JSON.parse(bodyText);
+      } catch {
+        // Not JSON, return as text
+      }
+    }
+
+    return {
+      status: response.status,
+      statusText: response.statusText,
+      durationMs: Date.now() - startedAt,
+      headers: response.headers,
+      body,
+      ...(truncated ? { truncated: true, totalLength: rawBody.length } : {}),
+    };
+  }
+
+  private collectParameters(spec: LoadedSpec, endpoint: EndpointInfo): any[] {
+    // Inline schema refs so enum and type checks see the actual definitions
+    const expander = new SchemaExpander(spec.doc, { mode: 'refs', maxDepth: 2 });
+    return expander.expand(resolveParameters(spec.doc, endpoint));
+  }
+
+  private checkType(parameter: any, value: any): string | null {
+    // OpenAPI 3 nests the type under schema, Swagger 2 puts it on the parameter
+    const schema = parameter.schema || parameter;
+    const label = `${parameter.in} parameter '${parameter.name}'`;
+    const values = Array.isArray(value) ? value : [value];
+    const itemSchema = schema.type === 'array' ? schema.items || {} : schema;
+
+    for (const item of values) {
+      const text = String(item);
+      if (itemSchema.enum && !itemSchema.enum.map(String).includes(text)) {
+        return `${label} must be one of: ${itemSchema.enum.join(', ')}`;
+      }
+      if (itemSchema.type === 'integer' && !/^-?\d+$/.test(text)) {
+        return `${label} must be an integer`;
+      }
+      if (itemSchema.type === 'number' && (text.trim() === '' || isNaN(Number(text)))) {
+        return `${label} must be a number`;
+      }
+      if (itemSchema.type === 'boolean' && text !== 'true' && text !== 'false') {
+        return `${label} must be a boolean`;
+      }
+    }
+    return null;
+  }
+
+  private defaultContentType(spec: LoadedSpec, endpoint: EndpointInfo): string {
+    const operation = spec.doc.paths?.[endpoint.path]?.[endpoint.method.toLowerCase()] || {};
+    const declared: string[] = endpoint.requestBody?.content
+      ? Object.keys(endpoint.requestBody.content)
+      : operation.consumes || spec.doc.consumes || [];
+    return declared.find(type => type.includes('json')) || declared[0] || 'application/json';
+  }
+
+  private maskFields(fields: Record<string, any>, sensitiveNames: string[]): Record<string, any> {
+    return Object.fromEntries(Object.entries(fields || {}).map(([key, value]) => {
+      if (sensitiveNames.includes(key.toLowerCase())) {
+        const scheme = String(value).match(/^(Basic|Bearer)\s/i)?.[0] || '';
+        return [key, `${scheme}***`];
+      }
+      return [key, value];
+    }));
+  }
+}
@@ -0,0 +1,111 @@
+import { EndpointInfo } from './swagger-fetcher.js';
+
+// Search results also carry their score and the fields that matched
+export type ListedEndpoint = EndpointInfo & { spec: string; score?: number; highlights?: Record<string, string | string[]> };
+
+export type EndpointField = keyof ListedEndpoint;
+
+export interface ListingOptions {
+  view: 'summary' | 'full';
+  fields?: EndpointField[];
+  method?: string;
+  source?: string;
+  deprecated?: boolean;
+  limit: number;
+  offset: number;
+  cursor?: string;
+  maxChars: number;
+}
+
+export interface EndpointPage {
+  total: number;
+  offset: number;
+  count: number;
+  endpoints: Array<Partial<ListedEndpoint>>;
+  nextCursor?: string;
+  truncated?: boolean;
+  notice?: string;
+}
+
+export const ENDPOINT_FIELDS: EndpointField[] = [
+  'spec', 'method', 'path', 'summary', 'description', 'operationId', 'source', 'deprecated',
+  'tags', 'security', 'parameters', 'requestBody', 'responses',
+];
+// Search results can also select their ranking
+export const SEARCH_FIELDS: EndpointField[] = [...ENDPOINT_FIELDS, 'score', 'highlights'];
+export const DEFAULT_LIMIT = 50;
+export const DEFAULT_MAX_CHARS = 40000;
+
+// Every entry keeps enough to identify the operation, whatever fields were asked for
+const IDENTITY_FIELDS: EndpointField[] = ['spec', 'method', 'path'];
+// Search rankings are part of the summary view; with explicit fields they are only returned when selected
+const SUMMARY_FIELDS: EndpointField[] = [...IDENTITY_FIELDS, 'summary', 'operationId', 'score', 'highlights'];
+
+// Cursors are opaque to callers; they only carry the offset of the next page
+function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): number {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+    if (Number.isInteger(offset) && offset >= 0) {
+      return offset;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error('Invalid cursor. Pass the nextCursor value from a previous response unchanged.');
+}
+
+function project(endpoint: ListedEndpoint, fields: EndpointField[] | null): Partial<ListedEndpoint> {
+  if (!fields) {
+    return endpoint;
+  }
+  return Object.fromEntries(fields
+    .filter(field => endpoint[field] !== undefined)
+    .map(field => [field, endpoint[field]]));
+}
+
+// Filters, projects and pages endpoints, stopping early when the page would exceed maxChars
+export function pageEndpoints(endpoints: ListedEndpoint[], options: ListingOptions): EndpointPage {
+  const method = options.method?.toUpperCase();
+  const filtered = endpoints.filter(endpoint =>
+    (!method || endpoint.method === method)
+    && (!options.source || endpoint.source === options.source)
+    && (options.deprecated === undefined || !!endpoint.deprecated === options.deprecated)
+  );
+
+  const fields = options.fields?.length
+    ? Array.from(new Set([...IDENTITY_FIELDS, ...options.fields]))
+    : options.view === 'summary' ? SUMMARY_FIELDS : null;
+
+  const offset = options.cursor ? decodeCursor(options.cursor) : options.offset;
+  const page = filtered.slice(offset, offset + options.limit).map(endpoint => project(endpoint, fields));
+
+  // Keep whole entries only, so a truncated page is still valid JSON with complete endpoints
+  let size = 0;
+  let count = 0;
+  for (const entry of page) {
+    size += JSON.stringify(entry, null, 2).length;
+    if (size > options.maxChars && count > 0) {
+      break;
+    }
+    count++;
+  }
+
+  const truncated = count < page.length;
+  const next = offset + count;
+  return {
+    total: filtered.length,
+    offset,
+    count,
+    endpoints: page.slice(0, count),
+    ...(next < filtered.length ? { nextCursor: encodeCursor(next) } : {}),
+    ...(truncated ? {
+      truncated: true,
+      notice: `Output capped at ${options.maxChars} characters after ${count} of ${page.length} requested endpoints. `
+        + `Continue with nextCursor, or use view 'summary' or fields to get more per page.`,
+    } : {}),
+  };
+}
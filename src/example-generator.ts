@@ -0,0 +1,543 @@
+import { getRequestBodySchema, getResponseSchemas, parameterSchema, resolveParameters } from './operation-schemas.js';
+import { SchemaExpander } from './schema-expander.js';
+import { EndpointInfo, SwaggerDoc } from './swagger-fetcher.js';
+
+export interface GeneratedExample {
+  contentType: string;
+  example: any;
+  source: 'spec' | 'generated';
+}
+
+export interface OperationExamples {
+  parameters: Record<string, Record<string, any>>;
+  request?: GeneratedExample;
+  responses: Record<string, GeneratedExample | { source: 'none' }>; // 'none' for responses without a body
+}
+
+export interface ExampleOptions {
+  seed: number;
+  includeOptional: boolean;
+}
+
+const MAX_DEPTH = 8;
+// Past MAX_DEPTH only required properties are generated, so values stay valid; past this, nothing is
+const MAX_MINIMAL_DEPTH = MAX_DEPTH * 2;
+const ALPHANUMERIC = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+const DIGITS = '0123456789';
+const WORD_CHARS = `${ALPHANUMERIC}_`;
+const FIRST_NAMES = ['Alice', 'Bob', 'Carol', 'David', 'Eve', 'Frank'];
+const LAST_NAMES = ['Smith', 'Johnson', 'Garcia', 'Chen', 'Okafor', 'Novak'];
+const CITIES = ['Berlin', 'Lisbon', 'Austin', 'Osaka', 'Nairobi', 'Toronto'];
+const COUNTRIES = ['DE', 'PT', 'US', 'JP', 'KE', 'CA'];
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+// mulberry32: small, fast and good enough for reproducible fixtures
+class SeededRandom {
+  private state: number;
+
+  constructor(seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  int(min: number, max: number): number {
+    return min + Math.floor(this.next() * (max - min + 1));
+  }
+
+  pick<T>(values: readonly T[]): T {
+    return values[this.int(0, values.length - 1)];
+  }
+
+  chars(alphabet: string, length: number): string {
+    let result = '';
+    for (let i = 0; i < length; i++) {
+      result += alphabet[this.int(0, alphabet.length - 1)];
+    }
+    return result;
+  }
+}
+
+export class ExampleGenerator {
+  private expander: SchemaExpander;
+  private random: SeededRandom;
+  private direction: 'request' | 'response' | null = null;
+
+  constructor(private doc: SwaggerDoc, private options: ExampleOptions) {
+    this.expander = new SchemaExpander(doc, { mode: 'none', maxDepth: 0 });
+    this.random = new SeededRandom(options.seed);
+  }
+
+  forOperation(endpoint: EndpointInfo): OperationExamples {
+    // Restart the sequence so an operation always yields the same examples
+    this.random = new SeededRandom(this.options.seed);
+
+    const parameters: Record<string, Record<string, any>> = {};
+    for (const parameter of resolveParameters(this.doc, endpoint)) {
+      if (parameter.in === 'body' || parameter.in === 'formData') {
+        continue;
+      }
+      const value = parameter.example ?? parameter['x-example']
+        ?? this.firstExampleValue(parameter.examples)
+        ?? this.forSchema(parameterSchema(parameter), parameter.name);
+      parameters[parameter.in] = { ...parameters[parameter.in], [parameter.name]: value };
+    }
+
+    const request = this.forRequestBody(endpoint);
+    const examples: OperationExamples = { parameters, ...(request ? { request } : {}), responses: {} };
+
+    const operation = this.doc.paths?.[endpoint.path]?.[endpoint.method.toLowerCase()] || {};
+    for (const response of getResponseSchemas(this.doc, endpoint)) {
+      if (examples.responses[response.status]) {
+        continue;
+      }
+      const rawResponse = this.resolve(endpoint.responses?.[response.status]);
+      const media = rawResponse?.content?.[response.contentType];
+      // Swagger 2 keeps response examples keyed by mime type
+      const specExample = media?.example
+        ?? this.firstExampleValue(media?.examples)
+        ?? rawResponse?.examples?.[response.contentType];
+
+      examples.responses[response.status] = specExample !== undefined
+        ? { contentType: response.contentType, example: specExample, source: 'spec' }
+        : { contentType: response.contentType, example: this.forDirection('response', response.schema), source: 'generated' };
+    }
+
+    // Responses without a body still show up so every status is listed
+    for (const status of Object.keys(endpoint.responses || operation.responses || {})) {
+      if (!examples.responses[status]) {
+        examples.responses[status] = { source: 'none' };
+      }
+    }
+
+    return examples;
+  }
+
+  forRequestBody(endpoint: EndpointInfo): GeneratedExample | undefined {
+    const requestBody = getRequestBodySchema(this.doc, endpoint);
+    if (!requestBody) {
+      return undefined;
+    }
+
+    const rawBody = this.resolve(endpoint.requestBody);
+    const media = rawBody?.content?.[requestBody.contentType];
+    const bodyParameter = resolveParameters(this.doc, endpoint).find(parameter => parameter.in === 'body');
+    const specExample = media?.example
+      ?? this.firstExampleValue(media?.examples)
+      ?? bodyParameter?.['x-example'];
+
+    if (specExample !== undefined) {
+      return { contentType: requestBody.contentType, example: specExample, source: 'spec' };
+    }
+    return { contentType: requestBody.contentType, example: this.forDirection('request', requestBody.schema), source: 'generated' };
+  }
+
+  forSchema(schema: any, propertyName?: string): any {
+    return this.generate(schema, propertyName, [], 0, false);
+  }
+
+  // Request examples leave out readOnly properties, response examples writeOnly ones
+  private forDirection(direction: 'request' | 'response', schema: any): any {
+    this.direction = direction;
+    try {
+      return this.forSchema(schema);
+    } finally {
+      this.direction = null;
+    }
+  }
+
+  private resolve(value: any): any {
+    const seen = new Set<string>();
+    let current = value;
+    while (isPlainObject(current) && typeof current.$ref === 'string' && !seen.has(current.$ref)) {
+      seen.add(current.$ref);
+      current = this.expander.resolveRef(current.$ref);
+    }
+    return current;
+  }
+
+  private firstExampleValue(examples: any): any {
+    if (!isPlainObject(examples)) {
+      return undefined;
+    }
+    const first = Object.values(examples)[0];
+    return this.resolve(first)?.value;
+  }
+
+  // Minimal values hold only what the schema requires: required properties and minItems items
+  private generate(schema: any, propertyName: string | undefined, refStack: string[], depth: number, minimal: boolean): any {
+    if (!isPlainObject(schema) || depth > MAX_MINIMAL_DEPTH) {
+      return null;
+    }
+    minimal = minimal || depth > MAX_DEPTH;
+
+    if (typeof schema.$ref === 'string') {
+      if (refStack.includes(schema.$ref)) {
+        // A cycle is cut with a minimal value, which only recurses again through required properties;
+        // a schema that requires itself has no finite instance
+        if (minimal && refStack.indexOf(schema.$ref) !== refStack.lastIndexOf(schema.$ref)) {
+          return null;
+        }
+        minimal = true;
+      }
+      return this.generate(this.resolve(schema), propertyName, [...refStack, schema.$ref], depth + 1, minimal);
+    }
+
+    if (schema.example !== undefined) {
+      return schema.example;
+    }
+    if (Array.isArray(schema.examples) && schema.examples.length > 0) {
+      return schema.examples[0];
+    }
+    if (schema.default !== undefined) {
+      return schema.default;
+    }
+    if ('const' in schema) {
+      return schema.const;
+    }
+    if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+      return this.random.pick(schema.enum);
+    }
+
+    if (Array.isArray(schema.allOf)) {
+      const parts = schema.allOf.map((part: any) => this.generate(part, propertyName, refStack, depth + 1, minimal));
+      const { allOf, ...ownSchema } = schema;
+      if (ownSchema.properties) {
+        parts.push(this.generate(ownSchema, propertyName, refStack, depth + 1, minimal));
+      }
+      return parts.every(isPlainObject) ? Object.assign({}, ...parts) : parts[parts.length - 1];
+    }
+    const variants = schema.oneOf || schema.anyOf;
+    if (Array.isArray(variants) && variants.length > 0) {
+      return this.generate(variants[0], propertyName, refStack, depth + 1, minimal);
+    }
+
+    const type = Array.isArray(schema.type)
+      ? schema.type.find((candidate: string) => candidate !== 'null')
+      : schema.type || (schema.properties || schema.additionalProperties ? 'object' : schema.items ? 'array' : undefined);
+
+    switch (type) {
+      case 'object':
+        return this.generateObject(schema, refStack, depth, minimal);
+      case 'array': {
+        // Arrays of the schema being generated stay empty unless they must have items
+        const cyclic = typeof schema.items?.$ref === 'string' && refStack.includes(schema.items.$ref);
+        const count = minimal || cyclic
+          ? schema.minItems ?? 0
+          : Math.min(Math.max(schema.minItems ?? 1, 1), schema.maxItems ?? Infinity);
+        const items = [];
+        for (let i = 0; i < count; i++) {
+          items.push(this.generate(schema.items, propertyName, refStack, depth + 1, minimal));
+        }
+        return items;
+      }
+      case 'integer':
+      case 'number':
+        return this.generateNumber(schema, type === 'integer');
+      case 'boolean':
+        return this.random.next() < 0.5;
+      case 'string':
+        return this.generateString(schema, propertyName);
+      case 'null':
+        return null;
+      default:
+        return schema.properties ? this.generateObject(schema, refStack, depth, minimal) : null;
+    }
+  }
+
+  private generateObject(schema: Record<string, any>, refStack: string[], depth: number, minimal: boolean): Record<string, any> {
+    const required = new Set<string>(schema.required || []);
+    const result: Record<string, any> = {};
+
+    for (const [name, property] of Object.entries<any>(schema.properties || {})) {
+      if ((minimal || !this.options.includeOptional) && !required.has(name)) {
+        continue;
+      }
+      result[name] = this.generate(property, name, refStack, depth + 1, minimal);
+    }
+
+    for (const [name, property] of Object.entries<any>(schema.properties || {})) {
+      const resolved = this.resolve(property);
+      if ((this.direction === 'request' && resolved?.readOnly) || (this.direction === 'response' && resolved?.writeOnly)) {
+        delete result[name];
+      }
+    }
+
+    if (isPlainObject(schema.additionalProperties) && Object.keys(result).length === 0) {
+      result.additionalProp1 = this.generate(schema.additionalProperties, undefined, refStack, depth + 1, minimal);
+    }
+    return result;
+  }
+
+  private generateNumber(schema: Record<string, any>, integer: boolean): number {
+    let minimum = typeof schema.minimum === 'number' ? schema.minimum
+      : typeof schema.exclusiveMinimum === 'number' ? schema.exclusiveMinimum : 1;
+    let maximum = typeof schema.maximum === 'number' ? schema.maximum
+      : typeof schema.exclusiveMaximum === 'number' ? schema.exclusiveMaximum : Math.max(minimum + 1000, 1000);
+
+    const step = integer ? 1 : 0.01;
+    if (schema.exclusiveMinimum === true || typeof schema.exclusiveMinimum === 'number') {
+      minimum += step;
+    }
+    if (schema.exclusiveMaximum === true || typeof schema.exclusiveMaximum === 'number') {
+      maximum -= step;
+    }
+    if (maximum < minimum) {
+      maximum = minimum;
+    }
+
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+      const low = Math.ceil(minimum / schema.multipleOf);
+      const high = Math.max(Math.floor(maximum / schema.multipleOf), low);
+      return this.random.int(low, high) * schema.multipleOf;
+    }
+    if (integer) {
+      return this.random.int(Math.ceil(minimum), Math.floor(maximum));
+    }
+    return Math.round((minimum + this.random.next() * (maximum - minimum)) * 100) / 100;
+  }
+
+  private generateString(schema: Record<string, any>, propertyName?: string): string {
+    const value = this.generateFormattedString(schema, propertyName);
+    const minLength = schema.minLength ?? 0;
+    const maxLength = schema.maxLength ?? Infinity;
+
+    if (value.length < minLength) {
+      return value + this.random.chars(ALPHANUMERIC, minLength - value.length);
+    }
+    return value.length > maxLength ? value.substring(0, maxLength) : value;
+  }
+
+  private generateFormattedString(schema: Record<string, any>, propertyName?: string): string {
+    switch (schema.format) {
+      case 'date-time':
+        return this.randomDate().toISOString().replace(/\.\d{3}Z$/, 'Z');
+      case 'date':
+        return this.randomDate().toISOString().substring(0, 10);
+      case 'time':
+        return this.randomDate().toISOString().substring(11, 19);
+      case 'uuid':
+        return this.randomUuid();
+      case 'email':
+        return this.randomEmail();
+      case 'uri':
+      case 'url':
+        return `https://example.com/${this.random.chars('abcdefghijklmnopqrstuvwxyz', 8)}`;
+      case 'hostname':
+        return `${this.random.chars('abcdefghijklmnopqrstuvwxyz', 6)}.example.com`;
+      case 'ipv4':
+        return [this.random.int(1, 223), this.random.int(0, 255), this.random.int(0, 255), this.random.int(1, 254)].join('.');
+      case 'ipv6':
+        return Array.from({ length: 8 }, () => this.random.chars('0123456789abcdef', 4)).join(':');
+      case 'byte':
+        return Buffer.from(this.random.chars(ALPHANUMERIC, 12)).toString('base64');
+      case 'binary':
+        return '<binary>';
+      case 'password':
+        return this.random.chars(ALPHANUMERIC, 12);
+    }
+
+    if (typeof schema.pattern === 'string') {
+      const generated = this.fromPattern(schema.pattern);
+      if (generated !== undefined) {
+        return generated;
+      }
+    }
+
+    return this.fromPropertyName(propertyName) ?? this.random.chars('abcdefghijklmnopqrstuvwxyz', 8);
+  }
+
+  // Picks a plausible value from common property names when the schema gives no hint
+  private fromPropertyName(propertyName?: string): string | undefined {
+    const original = propertyName || '';
+    const name = original.toLowerCase();
+    if (!name) {
+      return undefined;
+    }
+    if (name.includes('email')) {
+      return this.randomEmail();
+    }
+    // "id" as a word of its own (id, user_id, userId, userID), so paid, valid and android don't match
+    if (/(^|[_-])id$/i.test(original) || /[a-z0-9](Id|ID)$/.test(original)) {
+      return this.randomUuid();
+    }
+    if (name.includes('firstname') || name.includes('first_name') || name === 'givenname') {
+      return this.random.pick(FIRST_NAMES);
+    }
+    if (name.includes('lastname') || name.includes('last_name') || name === 'surname' || name === 'familyname') {
+      return this.random.pick(LAST_NAMES);
+    }
+    if (name === 'name' || name.endsWith('name')) {
+      return `${this.random.pick(FIRST_NAMES)} ${this.random.pick(LAST_NAMES)}`;
+    }
+    if (name.includes('phone')) {
+      return `+1555${this.random.chars(DIGITS, 7)}`;
+    }
+    if (name.includes('city')) {
+      return this.random.pick(CITIES);
+    }
+    if (name.includes('country')) {
+      return this.random.pick(COUNTRIES);
+    }
+    if (name.includes('url') || name.includes('uri') || name.includes('link')) {
+      return `https://example.com/${this.random.chars('abcdefghijklmnopqrstuvwxyz', 8)}`;
+    }
+    return undefined;
+  }
+
+  private randomDate(): Date {
+    // Stay within 2020-2029 so dates look realistic
+    const start = Date.UTC(2020, 0, 1);
+    const end = Date.UTC(2029, 11, 31);
+    return new Date(start + Math.floor(this.random.next() * (end - start) / 1000) * 1000);
+  }
+
+  private randomUuid(): string {
+    const hex = this.random.chars('0123456789abcdef', 32);
+    const variant = '89ab'[this.random.int(0, 3)];
+    return `${hex.substring(0, 8)}-${hex.substring(8, 12)}-4${hex.substring(13, 16)}-${variant}${hex.substring(17, 20)}-${hex.substring(20, 32)}`;
+  }
+
+  private randomEmail(): string {
+    return `${this.random.pick(FIRST_NAMES).toLowerCase()}.${this.random.pick(LAST_NAMES).toLowerCase()}@example.com`;
+  }
+
+  // Generates a string for the common regex subset: literals, classes, groups, alternation and quantifiers
+  private fromPattern(pattern: string): string | undefined {
+    let position = 0;
+    const source = pattern.replace(/^\^/, '').replace(/(?<!\\)\$$/, '');
+
+    const parseAlternatives = (): string[][] => {
+      const alternatives: string[][] = [[]];
+      while (position < source.length && source[position] !== ')') {
+        if (source[position] === '|') {
+          position++;
+          alternatives.push([]);
+          continue;
+        }
+        const atom = parseAtom();
+        const [min, max] = parseQuantifier();
+        const count = min === max ? min : this.random.int(min, Math.min(max, min + 3));
+        const pieces: string[] = [];
+        for (let i = 0; i < count; i++) {
+          pieces.push(atom());
+        }
+        alternatives[alternatives.length - 1].push(pieces.join(''));
+      }
+      return alternatives;
+    };
+
+    const parseEscape = (): string => {
+      const escaped = source[position++];
+      switch (escaped) {
+        case 'd':
+          return DIGITS;
+        case 'w':
+          return WORD_CHARS;
+        case 's':
+          return ' ';
+        default:
+          return escaped;
+      }
+    };
+
+    const parseClass = (): string => {
+      const negated = source[position] === '^';
+      if (negated) {
+        position++;
+      }
+      let members = '';
+      while (position < source.length && source[position] !== ']') {
+        let start = source[position++];
+        if (start === '\\') {
+          const escaped = parseEscape();
+          if (escaped.length > 1) {
+            members += escaped;
+            continue;
+          }
+          start = escaped;
+        }
+        if (source[position] === '-' && source[position + 1] && source[position + 1] !== ']') {
+          const end = source[position + 1] === '\\' ? source[position + 2] : source[position + 1];
+          position += source[position + 1] === '\\' ? 3 : 2;
+          for (let code = start.charCodeAt(0); code <= end.charCodeAt(0); code++) {
+            members += String.fromCharCode(code);
+          }
+        } else {
+          members += start;
+        }
+      }
+      position++;
+      return negated ? ALPHANUMERIC.split('').filter(char => !members.includes(char)).join('') : members;
+    };
+
+    const parseAtom = (): (() => string) => {
+      const char = source[position++];
+      if (char === '(') {
+        if (source.startsWith('?:', position)) {
+          position += 2;
+        }
+        const alternatives = parseAlternatives();
+        position++;
+        return () => this.random.pick(alternatives).join('');
+      }
+      if (char === '[') {
+        const members = parseClass();
+        return () => (members ? this.random.chars(members, 1) : '');
+      }
+      if (char === '\\') {
+        const members = parseEscape();
+        return () => this.random.chars(members, 1);
+      }
+      if (char === '.') {
+        return () => this.random.chars(ALPHANUMERIC, 1);
+      }
+      return () => char;
+    };
+
+    const parseQuantifier = (): [number, number] => {
+      const char = source[position];
+      let range: [number, number] = [1, 1];
+      if (char === '*') {
+        range = [0, 3];
+        position++;
+      } else if (char === '+') {
+        range = [1, 3];
+        position++;
+      } else if (char === '?') {
+        range = [0, 1];
+        position++;
+      } else if (char === '{') {
+        const match = source.substring(position).match(/^\{(\d+)(,(\d*))?\}/);
+        if (match) {
+          const min = parseInt(match[1], 10);
+          const max = match[2] ? (match[3] ? parseInt(match[3], 10) : min + 3) : min;
+          range = [min, max];
+          position += match[0].length;
+        }
+      }
+      // Lazy and possessive modifiers don't change what matches
+      if (source[position] === '?' || (source[position] === '+' && char !== '+')) {
+        position++;
+      }
+      return range;
+    };
+
+    try {
+      const generated = parseAlternatives().map(parts => parts.join(''));
+      const candidate = this.random.pick(generated);
+      return new RegExp(pattern).test(candidate) ? candidate : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,322 @@
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { createServer, IncomingMessage, Server as NodeHttpServer, ServerResponse } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { Config } from './config.js';
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  authToken?: string;
+  allowedHosts: string[]; // Accepted Host and Origin names; empty means loopback names when bound to loopback, else any
+  sessionTimeout: number; // Milliseconds a Streamable HTTP session may sit idle; 0 never closes it
+  createSession: () => Promise<Server>; // A fresh MCP server, with its own loaded specs, per client session
+}
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const HEALTH_PATH = '/health';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '::1'];
+const MAX_SWEEP_INTERVAL = 60000;
+
+interface StreamableSession {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+  openRequests: number; // A session with a request or stream in flight is never idle
+  lastActivity: number;
+}
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+// Errors on the MCP endpoints are JSON-RPC shaped, so clients can report them like any other
+function sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string, headers: Record<string, string> = {}): void {
+  sendJson(res, status, { jsonrpc: '2.0', error: { code, message }, id: null }, headers);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES} bytes`);
+    }
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  } catch (error) {
+    throw new HttpError(400, `Parse error: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function isAuthorized(req: IncomingMessage, authToken?: string): boolean {
+  if (!authToken) {
+    return true;
+  }
+  const match = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i);
+  if (!match) {
+    return false;
+  }
+  const expected = Buffer.from(authToken);
+  const actual = Buffer.from(match[1].trim());
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function headerValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function isLoopback(host: string): boolean {
+  return LOOPBACK_HOSTS.includes(host) || /^127\./.test(host);
+}
+
+// Host name from a Host header ("localhost:3000", "[::1]:3000") or an Origin ("http://localhost:3000")
+function hostName(value: string): string | undefined {
+  try {
+    return new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(value) ? value : `http://${value}`).hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+// Serves MCP over Streamable HTTP at /mcp and the older HTTP+SSE transport at /sse, one MCP server per session
+export class McpHttpServer {
+  private streamableSessions: Map<string, StreamableSession> = new Map();
+  private sseSessions: Map<string, SSEServerTransport> = new Map();
+  private httpServer: NodeHttpServer;
+  private startedAt = Date.now();
+  private allowedHosts: Set<string> | null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+
+  constructor(private options: HttpServerOptions) {
+    // Without a list, a loopback server only answers to loopback names, which is what stops DNS rebinding
+    const allowed = options.allowedHosts.length > 0 ? options.allowedHosts : isLoopback(options.host) ? LOOPBACK_HOSTS : [];
+    this.allowedHosts = allowed.length > 0 ? new Set(allowed.map(host => hostName(host) || host.toLowerCase())) : null;
+    this.httpServer = createServer((req, res) => {
+      this.handle(req, res).catch(error => {
+        console.error('[McpHttpServer] Request failed:', error);
+        if (!res.headersSent) {
+          const status = error instanceof HttpError ? error.status : 500;
+          sendJsonRpcError(res, status, status === 400 ? -32700 : -32603, error instanceof Error ? error.message : 'Internal server error');
+        } else {
+          res.end();
+        }
+      });
+    });
+  }
+
+  static fromConfig(config: Config, createSession: () => Promise<Server>): McpHttpServer {
+    return new McpHttpServer({ ...config.server, createSession });
+  }
+
+  listen(): Promise<{ host: string; port: number }> {
+    return new Promise((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off('error', reject);
+        const address = this.httpServer.address();
+        this.startSweeping();
+        resolve({ host: this.options.host, port: typeof address === 'object' && address ? address.port : this.options.port });
+      });
+    });
+  }
+
+  async close(): Promise<void> {
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+    const transports = [...Array.from(this.streamableSessions.values(), session => session.transport), ...this.sseSessions.values()];
+    await Promise.all(transports.map(transport => transport.close().catch(() => undefined)));
+    await new Promise<void>(resolve => this.httpServer.close(() => resolve()));
+  }
+
+  // Clients that go away without a DELETE would otherwise keep their session, specs and watcher forever
+  private startSweeping(): void {
+    const { sessionTimeout } = this.options;
+    if (sessionTimeout <= 0 || this.sweepTimer) {
+      return;
+    }
+    this.sweepTimer = setInterval(() => {
+      this.closeIdleSessions().catch(error => console.error('[McpHttpServer] Closing idle sessions failed:', error));
+    }, Math.min(sessionTimeout, MAX_SWEEP_INTERVAL));
+    this.sweepTimer.unref();
+  }
+
+  private async closeIdleSessions(): Promise<void> {
+    const cutoff = Date.now() - this.options.sessionTimeout;
+    for (const [id, session] of this.streamableSessions) {
+      if (session.openRequests === 0 && session.lastActivity < cutoff) {
+        console.error(`[McpHttpServer] Streamable HTTP session ${id} idle for ${this.options.sessionTimeout} ms, closing`);
+        this.streamableSessions.delete(id);
+        // Closing the server closes its transport, which stops the session's watcher
+        await session.server.close().catch(error => console.error(`[McpHttpServer] Closing session ${id} failed:`, error));
+      }
+    }
+  }
+
+  private isAllowedHost(req: IncomingMessage): boolean {
+    if (!this.allowedHosts) {
+      return true;
+    }
+    const host = hostName(headerValue(req.headers.host) || '');
+    const origin = headerValue(req.headers.origin);
+    return !!host && this.allowedHosts.has(host)
+      && (origin === undefined || this.allowedHosts.has(hostName(origin) || ''));
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+
+    if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, {
+        status: 'ok',
+        uptime: Math.round((Date.now() - this.startedAt) / 1000),
+        sessions: { streamableHttp: this.streamableSessions.size, sse: this.sseSessions.size },
+      });
+      return;
+    }
+
+    if (!this.isAllowedHost(req)) {
+      sendJsonRpcError(res, 403, -32000, `Forbidden: Host or Origin is not one of ${Array.from(this.allowedHosts || []).join(', ')}; see MCP_ALLOWED_HOSTS`);
+      return;
+    }
+
+    if (!isAuthorized(req, this.options.authToken)) {
+      sendJsonRpcError(res, 401, -32001, 'Unauthorized: send the configured MCP_AUTH_TOKEN as a Bearer token', {
+        'WWW-Authenticate': 'Bearer',
+      });
+      return;
+    }
+
+    switch (url.pathname) {
+      case MCP_PATH:
+        return this.handleStreamable(req, res);
+      case SSE_PATH:
+        return this.handleSseStream(req, res);
+      case SSE_MESSAGES_PATH:
+        return this.handleSseMessage(req, res, url.searchParams.get('sessionId'));
+      default:
+        sendJson(res, 404, { error: `Not found. MCP is served at ${MCP_PATH} (Streamable HTTP) and ${SSE_PATH} (SSE)` });
+    }
+  }
+
+  private async handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = headerValue(req.headers['mcp-session-id']);
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+
+    const existing = sessionId ? this.streamableSessions.get(sessionId) : undefined;
+    if (existing) {
+      await this.track(existing, res, () => existing.transport.handleRequest(req, res, body));
+      return;
+    }
+    if (sessionId) {
+      sendJsonRpcError(res, 404, -32001, `Session '${sessionId}' not found; start a new session with an initialize request`);
+      return;
+    }
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, -32000, 'Bad request: no Mcp-Session-Id header and not an initialize request');
+      return;
+    }
+
+    const server = await this.options.createSession();
+    const session: StreamableSession = {
+      transport: new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: id => {
+          this.streamableSessions.set(id, session);
+          console.error(`[McpHttpServer] Streamable HTTP session ${id} opened`);
+        },
+      }),
+      server,
+      openRequests: 0,
+      lastActivity: Date.now(),
+    };
+    const { transport } = session;
+    transport.onclose = () => {
+      if (transport.sessionId && this.streamableSessions.delete(transport.sessionId)) {
+        console.error(`[McpHttpServer] Streamable HTTP session ${transport.sessionId} closed`);
+      }
+    };
+
+    try {
+      await server.connect(transport);
+      await this.track(session, res, () => transport.handleRequest(req, res, body));
+    } catch (error) {
+      await server.close();
+      throw error;
+    }
+    // A rejected initialize leaves no session for the client to come back to, so its server
+    // (and spec watcher) would never be closed
+    if (!transport.sessionId) {
+      await server.close();
+    }
+  }
+
+  // Counts the request as in flight until its response ends, which for GET streams is when the client disconnects
+  private async track(session: StreamableSession, res: ServerResponse, handle: () => Promise<void>): Promise<void> {
+    session.openRequests++;
+    session.lastActivity = Date.now();
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastActivity = Date.now();
+    });
+    await handle();
+  }
+
+  private async handleSseStream(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (req.method !== 'GET') {
+      sendJson(res, 405, { error: `Use GET to open an SSE stream at ${SSE_PATH}` }, { Allow: 'GET' });
+      return;
+    }
+
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const server = await this.options.createSession();
+    try {
+      await server.connect(transport);
+    } catch (error) {
+      await server.close();
+      throw error;
+    }
+    // The client may have gone while the session was being set up
+    if (res.destroyed) {
+      await server.close();
+      return;
+    }
+
+    this.sseSessions.set(transport.sessionId, transport);
+    console.error(`[McpHttpServer] SSE session ${transport.sessionId} opened`);
+    res.on('close', () => {
+      this.sseSessions.delete(transport.sessionId);
+      console.error(`[McpHttpServer] SSE session ${transport.sessionId} closed`);
+    });
+  }
+
+  private async handleSseMessage(req: IncomingMessage, res: ServerResponse, sessionId: string | null): Promise<void> {
+    if (req.method !== 'POST') {
+      sendJson(res, 405, { error: `Use POST to send messages to ${SSE_MESSAGES_PATH}` }, { Allow: 'POST' });
+      return;
+    }
+    const transport = sessionId ? this.sseSessions.get(sessionId) : undefined;
+    if (!transport) {
+      sendJsonRpcError(res, 404, -32001, `SSE session '${sessionId}' not found; open a stream at ${SSE_PATH} first`);
+      return;
+    }
+    await transport.handlePostMessage(req, res, await readJsonBody(req));
+  }
+}
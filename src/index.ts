@@ -3,371 +3,1701 @@ import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
+  ReadResourceRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import { loadConfig } from './config.js';
-import { SwaggerFetcher, SwaggerDoc } from './swagger-fetcher.js';
+import { CollectionExporter } from './collection-exporter.js';
+import { ConfigError, LoadedConfig, loadConfig, maskConfig } from './config.js';
+import { DocumentCache } from './document-cache.js';
+import { EndpointCaller } from './endpoint-caller.js';
+import { DEFAULT_LIMIT, DEFAULT_MAX_CHARS, ENDPOINT_FIELDS, EndpointField, pageEndpoints, SEARCH_FIELDS } from './endpoint-listing.js';
+import { ExampleGenerator } from './example-generator.js';
+import { McpHttpServer } from './http-server.js';
+import { PayloadValidator, resolvePayloadTarget } from './payload-validator.js';
+import { RESOURCE_TEMPLATES, SpecResources } from './resources.js';
+import { DEFAULT_EXPAND_DEPTH, SchemaExpander } from './schema-expander.js';
+import { SchemaGraph } from './schema-usages.js';
+import { SecurityAnalyzer } from './security-analysis.js';
+import { SNIPPET_LANGUAGES, SnippetGenerator } from './snippet-generator.js';
+import { SpecDiffer } from './spec-diff.js';
+import { SpecWatcher } from './spec-watcher.js';
+import { originalVersion } from './spec-normalizer.js';
+import { SwaggerDoc, SwaggerFetcher } from './swagger-fetcher.js';
+import { TypeGenerator } from './type-generator.js';
+import { LoadedSpec, SpecWorkspace } from './workspace.js';
 
-const config = loadConfig();
-const swaggerFetcher = new SwaggerFetcher(config);
-
-let cachedSwaggerDoc: SwaggerDoc | null = null;
-
-const server = new Server(
-  {
-    name: 'swagger-docs-mcp',
-    version: '1.0.0',
-  },
-  {
-    capabilities: {
-      tools: {},
-    },
-  }
-);
+const { config, origin: configOrigin } = loadConfigOrExit();
+// Downloaded documents are shared by every session, so clear_cache in one is seen by all
+const documentCache = new DocumentCache(config.cacheDir);
+const endpointCaller = new EndpointCaller(config);
+const snippetGenerator = new SnippetGenerator(config);
+const collectionExporter = new CollectionExporter(config);
+const securityAnalyzer = new SecurityAnalyzer(config);
 
 const FetchSwaggerSchema = z.object({
-  url: z.string().url().optional().describe('The URL of the Swagger/OpenAPI documentation (optional, uses configured SWAGGER_URL if not provided)'),
+  url: z.string().optional().describe('The URL, file path or directory of the Swagger/OpenAPI documentation (optional, uses configured SWAGGER_URL if not provided)'),
+  name: z.string().optional().describe('Name to register the spec under in the workspace'),
 });
 
-const GetEndpointsSchema = z.object({
+const ListingOptionsSchema = z.object({
+  view: z.enum(['summary', 'full']).default('full').describe("'summary' returns only method, path, summary and operationId"),
+  fields: z.array(z.enum(ENDPOINT_FIELDS as [EndpointField, ...EndpointField[]])).optional()
+    .describe('Fields to include for each endpoint (spec, method and path are always included); overrides view'),
+  method: z.string().optional().describe('Only endpoints with this HTTP method'),
+  source: z.string().optional().describe('Only endpoints from this API source'),
+  deprecated: z.boolean().optional().describe('true for only deprecated endpoints, false to leave them out'),
+  limit: z.number().int().min(1).max(1000).default(DEFAULT_LIMIT).describe('Maximum number of endpoints to return'),
+  offset: z.number().int().min(0).default(0).describe('Number of endpoints to skip'),
+  cursor: z.string().optional().describe('nextCursor from a previous response; takes precedence over offset'),
+  maxChars: z.number().int().min(1000).default(DEFAULT_MAX_CHARS).describe('Approximate cap on the size of the returned endpoints'),
+});
+
+const GetEndpointsSchema = ListingOptionsSchema.extend({
   tag: z.string().optional().describe('Optional tag to filter endpoints'),
+  spec: z.string().optional().describe('Name of the loaded spec to query (all specs if omitted)'),
 }).strict();
 
-const SearchEndpointsSchema = z.object({
+const SearchEndpointsSchema = ListingOptionsSchema.extend({
+  fields: z.array(z.enum(SEARCH_FIELDS as [EndpointField, ...EndpointField[]])).optional()
+    .describe("Fields to include for each endpoint (spec, method and path are always included); add 'score' and 'highlights' to keep the ranking; overrides view"),
   query: z.string().describe('Search query to find endpoints'),
+  spec: z.string().optional().describe('Name of the loaded spec to search (all specs if omitted)'),
+}).strict();
+
+// JSON schema counterpart of ListingOptionsSchema, shared by get_endpoints and search_endpoints
+const LISTING_PROPERTIES = {
+  view: {
+    type: 'string',
+    enum: ['summary', 'full'],
+    description: "'summary' returns only method, path, summary and operationId (default: full)"
+  },
+  fields: {
+    type: 'array',
+    items: { type: 'string', enum: ENDPOINT_FIELDS },
+    description: 'Fields to include for each endpoint (spec, method and path are always included); overrides view'
+  },
+  method: {
+    type: 'string',
+    description: 'Only endpoints with this HTTP method'
+  },
+  source: {
+    type: 'string',
+    description: 'Only endpoints from this API source'
+  },
+  deprecated: {
+    type: 'boolean',
+    description: 'true for only deprecated endpoints, false to leave them out'
+  },
+  limit: {
+    type: 'number',
+    description: `Maximum number of endpoints to return (default: ${DEFAULT_LIMIT}, max: 1000)`
+  },
+  offset: {
+    type: 'number',
+    description: 'Number of endpoints to skip (default: 0)'
+  },
+  cursor: {
+    type: 'string',
+    description: 'nextCursor from a previous response; takes precedence over offset'
+  },
+  maxChars: {
+    type: 'number',
+    description: `Approximate cap on the size of the returned endpoints; the page is cut short with a notice when exceeded (default: ${DEFAULT_MAX_CHARS})`
+  },
+};
+
+const SearchSchemasSchema = z.object({
+  query: z.string().describe('Words to look for in schema names, titles, property names and descriptions'),
+  spec: z.string().optional().describe('Name of the loaded spec to search (all specs if omitted)'),
+  limit: z.number().int().min(1).max(200).default(20).describe('Maximum number of schemas to return'),
 }).strict();
 
+const ExpandModeSchema = z.enum(['none', 'refs', 'full']).default('none')
+  .describe("How to expand $refs: 'none' returns the raw definition, 'refs' inlines referenced definitions, 'full' also merges allOf and annotates oneOf/anyOf variants");
+
+const MaxDepthSchema = z.number().int().min(1).max(10).default(DEFAULT_EXPAND_DEPTH)
+  .describe('Maximum number of nested $refs to inline');
+
 const GetSchemaSchema = z.object({
   schemaName: z.string().describe('Name of the schema to retrieve'),
+  spec: z.string().optional().describe('Name of the loaded spec to look in (all specs if omitted)'),
+  expand: ExpandModeSchema,
+  maxDepth: MaxDepthSchema,
 }).strict();
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return {
-    tools: [
-      {
-        name: 'fetch_swagger',
-        description: 'Fetch and parse Swagger/OpenAPI documentation from a URL with authentication. Uses configured SWAGGER_URL if no URL is provided.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            url: {
-              type: 'string',
-              description: 'The URL of the Swagger/OpenAPI documentation (optional, uses configured SWAGGER_URL if not provided)'
-            }
-          },
-          required: []
+const FindSchemaUsagesSchema = z.object({
+  schemaName: z.string().describe('Name of the schema to look up'),
+  spec: z.string().optional().describe('Name of the loaded spec to look in (all specs if omitted)'),
+  directOnly: z.boolean().default(false).describe('Only report direct $refs, not uses through other schemas'),
+}).strict();
+
+const GetSchemaDependenciesSchema = z.object({
+  schemaName: z.string().describe('Name of the schema whose dependencies to list'),
+  spec: z.string().optional().describe('Name of the loaded spec to look in (all specs if omitted)'),
+  maxDepth: z.number().int().min(1).optional().describe('How many levels of references to follow (all if omitted)'),
+}).strict();
+
+const GetEndpointSchema = z.object({
+  operationId: z.string().optional().describe('Operation ID of the endpoint'),
+  method: z.string().optional().describe('HTTP method of the endpoint (used with path)'),
+  path: z.string().optional().describe('Path of the endpoint as written in the spec (used with method)'),
+  spec: z.string().optional().describe('Name of the loaded spec to look in (all specs if omitted)'),
+  expand: ExpandModeSchema,
+  maxDepth: MaxDepthSchema,
+}).strict();
+
+const CallEndpointSchema = z.object({
+  operationId: z.string().optional().describe('Operation ID of the endpoint'),
+  method: z.string().optional().describe('HTTP method of the endpoint (used with path)'),
+  path: z.string().optional().describe('Path of the endpoint as written in the spec (used with method)'),
+  spec: z.string().optional().describe('Name of the loaded spec to look in (all specs if omitted)'),
+  pathParams: z.record(z.any()).optional().describe('Values for path parameters'),
+  query: z.record(z.any()).optional().describe('Query string parameters'),
+  headers: z.record(z.string()).optional().describe('Additional request headers'),
+  cookies: z.record(z.any()).optional().describe('Values for cookie parameters'),
+  body: z.any().optional().describe('Request body'),
+  contentType: z.string().optional().describe('Content type of the request body'),
+  baseUrl: z.string().url().optional().describe('Server URL to use instead of the one declared by the spec'),
+  dryRun: z.boolean().default(false).describe('Only return the prepared request without sending it'),
+  timeout: z.number().int().positive().optional().describe('Request timeout in milliseconds'),
+}).strict();
+
+const GenerateTypesSchema = z.object({
+  schemaName: z.string().optional().describe('Name of the schema to generate types for'),
+  operationId: z.string().optional().describe('Operation ID to generate parameter, request and response types for'),
+  method: z.string().optional().describe('HTTP method of the operation (used with path)'),
+  path: z.string().optional().describe('Path of the operation as written in the spec (used with method)'),
+  source: z.string().optional().describe('API source whose schemas should all be generated'),
+  spec: z.string().optional().describe('Name of the loaded spec to look in'),
+  zod: z.boolean().default(false).describe('Also generate Zod schemas'),
+}).strict();
+
+const GenerateExampleSchema = z.object({
+  operationId: z.string().optional().describe('Operation ID of the endpoint'),
+  method: z.string().optional().describe('HTTP method of the endpoint (used with path)'),
+  path: z.string().optional().describe('Path of the endpoint as written in the spec (used with method)'),
+  spec: z.string().optional().describe('Name of the loaded spec to look in (all specs if omitted)'),
+  seed: z.number().int().default(1).describe('Seed for generated values; the same seed always yields the same examples'),
+  includeOptional: z.boolean().default(true).describe('Include optional properties in generated objects'),
+}).strict();
+
+const GenerateSnippetSchema = z.object({
+  operationId: z.string().optional().describe('Operation ID of the endpoint'),
+  method: z.string().optional().describe('HTTP method of the endpoint (used with path)'),
+  path: z.string().optional().describe('Path of the endpoint as written in the spec (used with method)'),
+  spec: z.string().optional().describe('Name of the loaded spec to look in (all specs if omitted)'),
+  languages: z.array(z.enum(['curl', 'fetch', 'axios', 'python', 'httpie'])).min(1).default(SNIPPET_LANGUAGES)
+    .describe('Languages to generate snippets for'),
+  baseUrl: z.string().url().optional().describe('Server URL to use instead of the one declared by the spec'),
+  includeOptional: z.boolean().default(false).describe('Also fill in optional parameters and body properties'),
+}).strict();
+
+const ExportCollectionSchema = z.object({
+  format: z.enum(['postman', 'http']).default('postman').describe('Postman Collection v2.1 JSON or a .http file'),
+  spec: z.string().optional().describe('Name of the loaded spec to export (active spec if omitted)'),
+  source: z.string().optional().describe('Only export operations from this API source'),
+  tag: z.string().optional().describe('Only export operations with this tag'),
+  outputPath: z.string().optional().describe('File to write the collection to; returned inline if omitted'),
+}).strict();
+
+const CheckSecuritySchema = z.object({
+  spec: z.string().optional().describe('Name of the loaded spec to check (all specs if omitted)'),
+  unsatisfiedOnly: z.boolean().default(true).describe('Only list operations the configured auth cannot call'),
+}).strict();
+
+const ValidatePayloadSchema = z.object({
+  operationId: z.string().optional().describe('Operation ID of the endpoint'),
+  method: z.string().optional().describe('HTTP method of the endpoint (used with path)'),
+  path: z.string().optional().describe('Path of the endpoint as written in the spec (used with method)'),
+  spec: z.string().optional().describe('Name of the loaded spec to look in (all specs if omitted)'),
+  direction: z.enum(['request', 'response']).describe('Validate against the request body or a response body'),
+  status: z.union([z.string(), z.number().int()]).optional().transform(value => value === undefined ? undefined : String(value))
+    .describe('Response status code (first 2xx response if omitted)'),
+  contentType: z.string().optional().describe('Media type to validate against (JSON media type if omitted)'),
+  payload: z.unknown().describe('JSON value to validate'),
+}).strict();
+
+const DiffSpecsSchema = z.object({
+  base: z.string().describe('Loaded spec name, URL or file path of the old version'),
+  head: z.string().optional().describe('Loaded spec name, URL or file path of the new version (re-fetches base if omitted)'),
+  baseSource: z.string().optional().describe('API source within base to compare'),
+  headSource: z.string().optional().describe('API source within head to compare'),
+  format: z.enum(['json', 'changelog', 'both']).default('both').describe('Output structured changes, a readable changelog, or both'),
+}).strict();
+
+const GetApiInfoSchema = z.object({
+  spec: z.string().optional().describe('Name of the loaded spec (all specs if omitted)'),
+}).strict();
+
+const UnloadSpecSchema = z.object({
+  name: z.string().describe('Name of the loaded spec to remove'),
+}).strict();
+
+const ClearCacheSchema = z.object({
+  url: z.string().optional().describe('Only clear entries for this URL (or its server); clears everything if omitted'),
+}).strict();
+
+const SpecArgumentSchema = z.object({
+  spec: z.string().optional().describe('Name of the loaded spec (most recently loaded if omitted)'),
+}).strict();
+
+// Config problems are reported as a readable list instead of a stack trace
+function loadConfigOrExit(): LoadedConfig {
+  try {
+    return loadConfig();
+  } catch (error) {
+    console.error(error instanceof ConfigError ? error.message : error);
+    process.exit(1);
+  }
+}
+
+// Docs are normalized to OpenAPI 3, so report the version the sources were written in
+function specVersion(spec: LoadedSpec): string {
+  return originalVersion(spec.sourceDocs.size > 0 ? Array.from(spec.sourceDocs.values()) : [spec.doc]);
+}
+
+function pickSource(doc: SwaggerDoc, sourceDocs: Map<string, SwaggerDoc>, source?: string): SwaggerDoc {
+  if (!source) {
+    return doc;
+  }
+  const sourceDoc = sourceDocs.get(source);
+  if (!sourceDoc) {
+    throw new Error(`API source '${source}' not found`);
+  }
+  return sourceDoc;
+}
+
+// Each MCP session gets its own fetcher and workspace, so specs loaded by one client are not seen by another
+async function createSession(): Promise<Server> {
+  const swaggerFetcher = new SwaggerFetcher(config, documentCache);
+  const workspace = new SpecWorkspace(swaggerFetcher);
+  const specResources = new SpecResources(workspace, swaggerFetcher);
+
+  const server = new Server(
+    {
+      name: 'swagger-docs-mcp',
+      version: '1.0.0',
+    },
+    {
+      capabilities: {
+        tools: {
+          listChanged: true,
         },
+        resources: {
+          listChanged: true,
+        },
+        logging: {},
       },
-      {
-        name: 'get_endpoints',
-        description: 'Get all API endpoints from the fetched Swagger documentation',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            tag: {
-              type: 'string',
-              description: 'Optional tag to filter endpoints'
-            }
+    }
+  );
+
+  // Notifications fail once the client has gone or while it is not connected yet; neither should fail
+  // the tool call or stop the watcher, which keeps running until the session closes
+  const notify = (send: () => Promise<void>) => send().catch(error => console.error('Notification failed:', error));
+  const watcher = new SpecWatcher(config, workspace, swaggerFetcher,
+    async change => {
+      await notify(() => server.sendToolListChanged());
+      await notify(() => server.sendResourceListChanged());
+      await notify(() => server.sendLoggingMessage({
+        level: 'info',
+        logger: 'spec-watcher',
+        data: {
+          message: `Spec '${change.spec}' changed: ${change.addedOperations.length} operations added, `
+            + `${change.removedOperations.length} removed, ${change.otherChanges} other changes`,
+          ...change,
+        },
+      }));
+    },
+    async (spec, error) => {
+      await notify(() => server.sendLoggingMessage({
+        level: 'warning',
+        logger: 'spec-watcher',
+        data: { message: `Could not refresh spec '${spec.name}' from ${spec.location}: ${error.message}` },
+      }));
+    },
+  );
+  server.onclose = () => watcher.stop();
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return {
+      tools: [
+        {
+          name: 'fetch_swagger',
+          description: 'Fetch and parse Swagger/OpenAPI documentation from a URL with authentication, or from a local file or directory. Uses configured SWAGGER_URL if no URL is provided.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              url: {
+                type: 'string',
+                description: 'The URL, file:// URL, file path or directory of the Swagger/OpenAPI documentation (optional, uses configured SWAGGER_URL if not provided)'
+              },
+              name: {
+                type: 'string',
+                description: 'Name to register the spec under in the workspace (defaults to the existing name for this URL, or one derived from the API title). A URL that is already loaded is renamed rather than loaded twice'
+              }
+            },
+            required: []
           },
-          required: []
         },
-      },
-      {
-        name: 'search_endpoints',
-        description: 'Search for API endpoints by query string',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            query: {
-              type: 'string',
-              description: 'Search query to find endpoints'
-            }
+        {
+          name: 'get_endpoints',
+          description: 'Get API endpoints from the fetched Swagger documentation, one page at a time. The response has the total count and a nextCursor when more endpoints remain; use view "summary" or fields on large APIs',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              ...LISTING_PROPERTIES,
+              tag: {
+                type: 'string',
+                description: 'Optional tag to filter endpoints'
+              },
+              spec: {
+                type: 'string',
+                description: 'Name of the loaded spec to query (all specs if omitted)'
+              }
+            },
+            required: []
           },
-          required: ['query']
         },
-      },
-      {
-        name: 'get_schema',
-        description: 'Get a specific schema/model definition from the Swagger documentation',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            schemaName: {
-              type: 'string',
-              description: 'Name of the schema to retrieve'
-            }
+        {
+          name: 'search_endpoints',
+          description: 'Search for API endpoints by keywords, ranked by relevance. Matches operationIds, summaries, paths, tags, parameter names, request/response property names and descriptions; each result has a score and the matching fields highlighted. Results are paged like get_endpoints',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              ...LISTING_PROPERTIES,
+              fields: {
+                type: 'array',
+                items: { type: 'string', enum: SEARCH_FIELDS },
+                description: "Fields to include for each endpoint (spec, method and path are always included); add 'score' and 'highlights' to keep the ranking; overrides view"
+              },
+              query: {
+                type: 'string',
+                description: 'Search query to find endpoints'
+              },
+              spec: {
+                type: 'string',
+                description: 'Name of the loaded spec to search (all specs if omitted)'
+              }
+            },
+            required: ['query']
           },
-          required: ['schemaName']
         },
-      },
-      {
-        name: 'get_api_info',
-        description: 'Get general information about the API',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-          required: []
+        {
+          name: 'search_schemas',
+          description: 'Search schema/model definitions by name, title, property names and description, ranked by relevance with the matching fields highlighted',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              query: {
+                type: 'string',
+                description: 'Words to look for in schema names, titles, property names and descriptions'
+              },
+              spec: {
+                type: 'string',
+                description: 'Name of the loaded spec to search (all specs if omitted)'
+              },
+              limit: {
+                type: 'number',
+                description: 'Maximum number of schemas to return (default: 20)'
+              }
+            },
+            required: ['query']
+          },
         },
-      },
-      {
-        name: 'validate_swagger',
-        description: 'Validate a Swagger/OpenAPI document. Uses configured SWAGGER_URL if no URL is provided.',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            url: {
-              type: 'string',
-              description: 'The URL of the Swagger/OpenAPI documentation to validate (optional, uses configured SWAGGER_URL if not provided)'
-            }
+        {
+          name: 'get_schema',
+          description: 'Get a specific schema/model definition from the Swagger documentation',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              schemaName: {
+                type: 'string',
+                description: 'Name of the schema to retrieve'
+              },
+              spec: {
+                type: 'string',
+                description: 'Name of the loaded spec to look in (all specs if omitted)'
+              },
+              expand: {
+                type: 'string',
+                enum: ['none', 'refs', 'full'],
+                description: "How to expand $refs: 'none' (default) returns the raw definition, 'refs' inlines referenced definitions, 'full' also merges allOf and annotates oneOf/anyOf variants. Cycles are marked with x-circular-ref."
+              },
+              maxDepth: {
+                type: 'number',
+                description: `Maximum number of nested $refs to inline (default ${DEFAULT_EXPAND_DEPTH}, max 10)`
+              }
+            },
+            required: ['schemaName']
           },
-          required: []
         },
-      },
-      {
-        name: 'get_api_sources',
-        description: 'Get list of available API documentation sources',
-        inputSchema: {
-          type: 'object',
-          properties: {},
-          required: []
+        {
+          name: 'find_schema_usages',
+          description: 'Find everything that uses a schema: operations that accept or return it (with the request body, response status or parameter it appears in) and other schemas that reference it, following $refs transitively. Indirect uses list the schemas in between under "via"',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              schemaName: {
+                type: 'string',
+                description: 'Name of the schema to look up'
+              },
+              spec: {
+                type: 'string',
+                description: 'Name of the loaded spec to look in (all specs if omitted)'
+              },
+              directOnly: {
+                type: 'boolean',
+                description: 'Only report direct $refs, not uses through other schemas (default: false)'
+              }
+            },
+            required: ['schemaName']
+          },
         },
-      },
-      {
-        name: 'get_doc_by_source',
-        description: 'Get documentation for a specific API source',
-        inputSchema: {
-          type: 'object',
-          properties: {
-            sourceName: {
-              type: 'string',
-              description: 'Name of the API source'
-            }
+        {
+          name: 'get_schema_dependencies',
+          description: "List the schemas a schema depends on through $refs, transitively, with the reference path to each and the edges of the dependency graph",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              schemaName: {
+                type: 'string',
+                description: 'Name of the schema whose dependencies to list'
+              },
+              spec: {
+                type: 'string',
+                description: 'Name of the loaded spec to look in (all specs if omitted)'
+              },
+              maxDepth: {
+                type: 'number',
+                description: 'How many levels of references to follow (all if omitted)'
+              }
+            },
+            required: ['schemaName']
           },
-          required: ['sourceName']
         },
-      },
-    ],
-  };
-});
+        {
+          name: 'get_endpoint',
+          description: 'Get the full details of a single endpoint by operationId or method and path, optionally with $refs expanded',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              operationId: {
+                type: 'string',
+                description: 'Operation ID of the endpoint'
+              },
+              method: {
+                type: 'string',
+                description: 'HTTP method of the endpoint (used with path)'
+              },
+              path: {
+                type: 'string',
+                description: 'Path of the endpoint as written in the spec (used with method)'
+              },
+              spec: {
+                type: 'string',
+                description: 'Name of the loaded spec to look in (all specs if omitted)'
+              },
+              expand: {
+                type: 'string',
+                enum: ['none', 'refs', 'full'],
+                description: "How to expand $refs: 'none' (default) returns the raw definition, 'refs' inlines referenced definitions, 'full' also merges allOf and annotates oneOf/anyOf variants. Cycles are marked with x-circular-ref."
+              },
+              maxDepth: {
+                type: 'number',
+                description: `Maximum number of nested $refs to inline (default ${DEFAULT_EXPAND_DEPTH}, max 10)`
+              }
+            },
+            required: []
+          },
+        },
+        {
+          name: 'call_endpoint',
+          description: 'Execute a real API request for an operation using the configured authentication. Only allowlisted methods (read-only by default) and hosts can be called; use dryRun to inspect the prepared request without sending it.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              operationId: {
+                type: 'string',
+                description: 'Operation ID of the endpoint'
+              },
+              method: {
+                type: 'string',
+                description: 'HTTP method of the endpoint (used with path)'
+              },
+              path: {
+                type: 'string',
+                description: 'Path of the endpoint as written in the spec (used with method)'
+              },
+              spec: {
+                type: 'string',
+                description: 'Name of the loaded spec to look in (all specs if omitted)'
+              },
+              pathParams: {
+                type: 'object',
+                description: 'Values for path parameters, e.g. { "id": "123" }'
+              },
+              query: {
+                type: 'object',
+                description: 'Query string parameters'
+              },
+              headers: {
+                type: 'object',
+                description: 'Additional request headers'
+              },
+              cookies: {
+                type: 'object',
+                description: 'Values for cookie parameters, sent in the Cookie header along with any API key cookie'
+              },
+              body: {
+                description: 'Request body (objects are sent as JSON unless contentType says otherwise)'
+              },
+              contentType: {
+                type: 'string',
+                description: 'Content type of the request body (defaults to the one declared by the operation)'
+              },
+              baseUrl: {
+                type: 'string',
+                description: 'Server URL to use instead of the one declared by the spec (must still be an allowed host)'
+              },
+              dryRun: {
+                type: 'boolean',
+                description: 'Only return the prepared request without sending it (default false)'
+              },
+              timeout: {
+                type: 'number',
+                description: 'Request timeout in milliseconds (capped by CALL_TIMEOUT)'
+              }
+            },
+            required: []
+          },
+        },
+        {
+          name: 'generate_types',
+          description: 'Generate TypeScript interfaces (and optionally Zod schemas) for a schema, an operation, or every schema of an API source, including all referenced schemas',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              schemaName: {
+                type: 'string',
+                description: 'Name of the schema to generate types for'
+              },
+              operationId: {
+                type: 'string',
+                description: 'Operation ID to generate parameter, request and response types for'
+              },
+              method: {
+                type: 'string',
+                description: 'HTTP method of the operation (used with path)'
+              },
+              path: {
+                type: 'string',
+                description: 'Path of the operation as written in the spec (used with method)'
+              },
+              source: {
+                type: 'string',
+                description: 'API source (see get_api_sources) whose schemas should all be generated'
+              },
+              spec: {
+                type: 'string',
+                description: 'Name of the loaded spec to look in'
+              },
+              zod: {
+                type: 'boolean',
+                description: 'Also generate Zod schemas (default false)'
+              }
+            },
+            required: []
+          },
+        },
+        {
+          name: 'generate_example',
+          description: "Generate example JSON for an operation's parameters, request body and each response status. Uses examples from the spec when present and otherwise synthesizes values from types, formats, enums and constraints.",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              operationId: {
+                type: 'string',
+                description: 'Operation ID of the endpoint'
+              },
+              method: {
+                type: 'string',
+                description: 'HTTP method of the endpoint (used with path)'
+              },
+              path: {
+                type: 'string',
+                description: 'Path of the endpoint as written in the spec (used with method)'
+              },
+              spec: {
+                type: 'string',
+                description: 'Name of the loaded spec to look in (all specs if omitted)'
+              },
+              seed: {
+                type: 'number',
+                description: 'Seed for generated values; the same seed always yields the same examples (default 1)'
+              },
+              includeOptional: {
+                type: 'boolean',
+                description: 'Include optional properties in generated objects (default true)'
+              }
+            },
+            required: []
+          },
+        },
+        {
+          name: 'generate_snippet',
+          description: 'Generate ready-to-run client code for an operation in curl, JavaScript fetch, axios, Python requests and HTTPie. Uses the spec\'s server URL, required parameters, an example body and the configured auth scheme, with credentials read from environment variables instead of written out.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              operationId: {
+                type: 'string',
+                description: 'Operation ID of the endpoint'
+              },
+              method: {
+                type: 'string',
+                description: 'HTTP method of the endpoint (used with path)'
+              },
+              path: {
+                type: 'string',
+                description: 'Path of the endpoint as written in the spec (used with method)'
+              },
+              spec: {
+                type: 'string',
+                description: 'Name of the loaded spec to look in (all specs if omitted)'
+              },
+              languages: {
+                type: 'array',
+                items: {
+                  type: 'string',
+                  enum: SNIPPET_LANGUAGES
+                },
+                description: 'Languages to generate snippets for (all if omitted)'
+              },
+              baseUrl: {
+                type: 'string',
+                description: 'Server URL to use instead of the one declared by the spec'
+              },
+              includeOptional: {
+                type: 'boolean',
+                description: 'Also fill in optional parameters and body properties (default false)'
+              }
+            },
+            required: []
+          },
+        },
+        {
+          name: 'export_collection',
+          description: 'Export a loaded spec, or one of its sources or tags, as a Postman Collection v2.1 or a .http file for VS Code REST Client and JetBrains HTTP Client. Requests are grouped by tag, with example bodies, parameter placeholders and variables for the base URL and auth. Writes to outputPath or returns the content inline.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              format: {
+                type: 'string',
+                enum: ['postman', 'http'],
+                description: 'Postman Collection v2.1 JSON or a .http file (default postman)'
+              },
+              spec: {
+                type: 'string',
+                description: 'Name of the loaded spec to export (active spec if omitted)'
+              },
+              source: {
+                type: 'string',
+                description: 'Only export operations from this API source'
+              },
+              tag: {
+                type: 'string',
+                description: 'Only export operations with this tag'
+              },
+              outputPath: {
+                type: 'string',
+                description: 'File to write the collection to; returned inline if omitted'
+              }
+            },
+            required: []
+          },
+        },
+        {
+          name: 'validate_payload',
+          description: "Check a JSON value against an operation's request body schema or one of its response schemas. Returns every violation with a JSON pointer to the offending value.",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              operationId: {
+                type: 'string',
+                description: 'Operation ID of the endpoint'
+              },
+              method: {
+                type: 'string',
+                description: 'HTTP method of the endpoint (used with path)'
+              },
+              path: {
+                type: 'string',
+                description: 'Path of the endpoint as written in the spec (used with method)'
+              },
+              spec: {
+                type: 'string',
+                description: 'Name of the loaded spec to look in (all specs if omitted)'
+              },
+              direction: {
+                type: 'string',
+                enum: ['request', 'response'],
+                description: 'Validate against the request body or a response body'
+              },
+              status: {
+                type: 'string',
+                description: "Response status code, e.g. '200' (first 2xx response if omitted; falls back to ranges like '2XX' and 'default')"
+              },
+              contentType: {
+                type: 'string',
+                description: 'Media type to validate against (JSON media type if omitted)'
+              },
+              payload: {
+                description: 'JSON value to validate'
+              }
+            },
+            required: ['direction', 'payload']
+          },
+        },
+        {
+          name: 'diff_specs',
+          description: 'Compare two versions of an API and classify every change as breaking or non-breaking. Compares two loaded specs, URLs or files, or, when only base is given, the previously fetched version against a fresh fetch.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              base: {
+                type: 'string',
+                description: 'Loaded spec name, URL or file path of the old version'
+              },
+              head: {
+                type: 'string',
+                description: 'Loaded spec name, URL or file path of the new version. If omitted, base is re-fetched and compared with its previously fetched version.'
+              },
+              baseSource: {
+                type: 'string',
+                description: 'API source within base to compare (for multi-source specs)'
+              },
+              headSource: {
+                type: 'string',
+                description: 'API source within head to compare (for multi-source specs)'
+              },
+              format: {
+                type: 'string',
+                enum: ['json', 'changelog', 'both'],
+                description: "Output structured changes ('json'), a readable changelog ('changelog'), or both (default)"
+              }
+            },
+            required: ['base']
+          },
+        },
+        {
+          name: 'get_api_info',
+          description: 'Get general information about the API',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              spec: {
+                type: 'string',
+                description: 'Name of the loaded spec (all specs if omitted)'
+              }
+            },
+            required: []
+          },
+        },
+        {
+          name: 'validate_swagger',
+          description: 'Validate a Swagger/OpenAPI document and list every error and warning with its JSON pointer, severity and the offending snippet. Sources of a multi-API swagger-config are validated separately. Uses configured SWAGGER_URL if no URL is provided.',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              url: {
+                type: 'string',
+                description: 'The URL, file path or directory of the Swagger/OpenAPI documentation to validate (optional, uses configured SWAGGER_URL if not provided)'
+              }
+            },
+            required: []
+          },
+        },
+        {
+          name: 'get_api_sources',
+          description: 'Get list of available API documentation sources',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              spec: {
+                type: 'string',
+                description: 'Name of the loaded spec (most recently loaded if omitted)'
+              }
+            },
+            required: []
+          },
+        },
+        {
+          name: 'get_doc_by_source',
+          description: 'Get documentation for a specific API source',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              sourceName: {
+                type: 'string',
+                description: 'Name of the API source'
+              },
+              spec: {
+                type: 'string',
+                description: 'Name of the loaded spec (most recently loaded if omitted)'
+              }
+            },
+            required: ['sourceName']
+          },
+        },
+        {
+          name: 'get_merge_conflicts',
+          description: 'List conflicts found while merging the API sources of a multi-source spec: components defined differently by several sources (renamed to <source>.<name>), operations declared by more than one source, and duplicate operationIds',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              spec: {
+                type: 'string',
+                description: 'Name of the loaded spec (most recently loaded if omitted)'
+              }
+            },
+            required: []
+          },
+        },
+        {
+          name: 'list_specs',
+          description: 'List all specs loaded in the workspace',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+            required: []
+          },
+        },
+        {
+          name: 'unload_spec',
+          description: 'Remove a loaded spec from the workspace',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              name: {
+                type: 'string',
+                description: 'Name of the loaded spec to remove'
+              }
+            },
+            required: ['name']
+          },
+        },
+        {
+          name: 'get_security_schemes',
+          description: 'Describe every security scheme a spec declares (type, location, OAuth2 flows and scopes), how many operations accept each, and whether the configured auth can satisfy it',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              spec: {
+                type: 'string',
+                description: 'Name of the loaded spec (most recently loaded if omitted)'
+              }
+            },
+            required: []
+          },
+        },
+        {
+          name: 'check_security',
+          description: "Check each operation's security requirements, after applying document defaults and `security: []` overrides, against the configured auth. Flags operations the server cannot call with its credentials and says why.",
+          inputSchema: {
+            type: 'object',
+            properties: {
+              spec: {
+                type: 'string',
+                description: 'Name of the loaded spec to check (all specs if omitted)'
+              },
+              unsatisfiedOnly: {
+                type: 'boolean',
+                description: 'Only list operations the configured auth cannot call (default true)'
+              }
+            },
+            required: []
+          },
+        },
+        {
+          name: 'get_config',
+          description: 'Show the active configuration: the config file and profile in use, which environment variables override it, and every setting with credentials masked',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+            required: []
+          },
+        },
+        {
+          name: 'get_watch_status',
+          description: 'Show the background watcher: whether it is on and its interval, and for each loaded spec when it was last checked and changed, its content hash, the last change (operations added and removed) and any refresh error',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+            required: []
+          },
+        },
+        {
+          name: 'cache_status',
+          description: 'Show cached documents: when each was fetched, whether it is still fresh, its ETag/Last-Modified validators, and any error that caused a stale copy to be served',
+          inputSchema: {
+            type: 'object',
+            properties: {},
+            required: []
+          },
+        },
+        {
+          name: 'clear_cache',
+          description: 'Remove cached documents from memory and the on-disk cache so they are downloaded again; downloaded documents are shared, so this affects every session',
+          inputSchema: {
+            type: 'object',
+            properties: {
+              url: {
+                type: 'string',
+                description: 'Only clear entries for this URL and other documents from the same server (optional, clears everything if omitted)'
+              }
+            },
+            required: []
+          },
+        },
+      ],
+    };
+  });
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
+  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    const { name, arguments: args } = request.params;
 
-  try {
-    switch (name) {
-      case 'fetch_swagger': {
-        const { url } = FetchSwaggerSchema.parse(args || {});
-        const swaggerUrl = url || config.swaggerUrl;
+    try {
+      switch (name) {
+        case 'fetch_swagger': {
+          const { url, name: specName } = FetchSwaggerSchema.parse(args || {});
+          const swaggerUrl = url || config.swaggerUrl;
 
-        if (!swaggerUrl) {
-          throw new Error('No Swagger URL provided. Please provide a URL parameter or configure SWAGGER_URL in your environment.');
-        }
+          if (!swaggerUrl) {
+            throw new Error('No Swagger URL provided. Please provide a URL parameter or configure SWAGGER_URL in your environment.');
+          }
 
-        cachedSwaggerDoc = await swaggerFetcher.fetchSwaggerDoc(swaggerUrl);
-
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                success: true,
-                info: {
-                  title: cachedSwaggerDoc.info.title,
-                  version: cachedSwaggerDoc.info.version,
-                  description: cachedSwaggerDoc.info.description,
-                },
-                pathCount: Object.keys(cachedSwaggerDoc.paths).length,
-                tags: cachedSwaggerDoc.tags,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+          const spec = await workspace.load(swaggerUrl, specName);
+          await notify(() => server.sendResourceListChanged());
 
-      case 'get_endpoints': {
-        if (!cachedSwaggerDoc) {
-          throw new Error('No Swagger documentation loaded. Please fetch a Swagger document first.');
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  spec: spec.name,
+                  info: {
+                    title: spec.doc.info.title,
+                    version: spec.doc.info.version,
+                    description: spec.doc.info.description,
+                  },
+                  specVersion: specVersion(spec),
+                  pathCount: Object.keys(spec.doc.paths).length,
+                  tags: spec.doc.tags,
+                }, null, 2),
+              },
+            ],
+          };
         }
+
+        case 'get_endpoints': {
+          const { tag, spec, ...listing } = GetEndpointsSchema.parse(args || {});
+          const endpoints = workspace.resolve(spec).flatMap(loaded => {
+            const specEndpoints = tag
+              ? swaggerFetcher.getEndpointsByTag(loaded.doc, tag)
+              : swaggerFetcher.getEndpoints(loaded.doc);
+            return specEndpoints.map(endpoint => ({ spec: loaded.name, ...endpoint }));
+          });
         
-        const { tag } = GetEndpointsSchema.parse(args || {});
-        const endpoints = tag 
-          ? swaggerFetcher.getEndpointsByTag(cachedSwaggerDoc, tag)
-          : swaggerFetcher.getEndpoints(cachedSwaggerDoc);
-        
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(endpoints, null, 2),
-            },
-          ],
-        };
-      }
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(pageEndpoints(endpoints, listing), null, 2),
+              },
+            ],
+          };
+        }
 
-      case 'search_endpoints': {
-        if (!cachedSwaggerDoc) {
-          throw new Error('No Swagger documentation loaded. Please fetch a Swagger document first.');
+        case 'search_endpoints': {
+          if (!args) {
+            throw new Error('No arguments provided for search_endpoints');
+          }
+          const { query, spec, ...listing } = SearchEndpointsSchema.parse(args);
+          const endpoints = swaggerFetcher.searchEndpoints(workspace.resolve(spec), query)
+            .map(({ spec: specName, endpoint, score, highlights }) => ({ spec: specName, ...endpoint, score, highlights }));
+        
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ query, ...pageEndpoints(endpoints, listing) }, null, 2),
+              },
+            ],
+          };
         }
+
+        case 'search_schemas': {
+          if (!args) {
+            throw new Error('No arguments provided for search_schemas');
+          }
+          const { query, spec, limit } = SearchSchemasSchema.parse(args);
+          const matches = swaggerFetcher.searchSchemas(workspace.resolve(spec), query);
         
-        if (!args) {
-          throw new Error('No arguments provided for search_endpoints');
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  query,
+                  total: matches.length,
+                  schemas: matches.slice(0, limit),
+                }, null, 2),
+              },
+            ],
+          };
         }
-        const { query } = SearchEndpointsSchema.parse(args);
-        const endpoints = swaggerFetcher.searchEndpoints(cachedSwaggerDoc, query);
+
+        case 'get_schema': {
+          if (!args) {
+            throw new Error('No arguments provided for get_schema');
+          }
+          const { schemaName, spec, expand, maxDepth } = GetSchemaSchema.parse(args);
+          const match = workspace.findSchema(schemaName, spec);
+          const schema = expand === 'none'
+            ? match.schema
+            : new SchemaExpander(match.spec.doc, { mode: expand, maxDepth }).expandSchema(schemaName);
         
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(endpoints, null, 2),
-            },
-          ],
-        };
-      }
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(schema, null, 2),
+              },
+            ],
+          };
+        }
 
-      case 'get_schema': {
-        if (!cachedSwaggerDoc) {
-          throw new Error('No Swagger documentation loaded. Please fetch a Swagger document first.');
+        case 'find_schema_usages': {
+          const { schemaName, spec, directOnly } = FindSchemaUsagesSchema.parse(args || {});
+          const match = workspace.findSchema(schemaName, spec);
+          const graph = new SchemaGraph(
+            match.spec.doc,
+            swaggerFetcher.getEndpoints(match.spec.doc),
+            swaggerFetcher.getSchemas(match.spec.doc)
+          );
+          const operations = graph.operationUsages(schemaName).filter(usage => !directOnly || usage.direct);
+          const schemas = graph.schemaUsages(schemaName).filter(usage => !directOnly || usage.direct);
+        
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  spec: match.spec.name,
+                  schema: schemaName,
+                  operations,
+                  schemas,
+                  operationCount: new Set(operations.map(usage => `${usage.method} ${usage.path}`)).size,
+                  schemaCount: schemas.length,
+                }, null, 2),
+              },
+            ],
+          };
         }
+
+        case 'get_schema_dependencies': {
+          const { schemaName, spec, maxDepth } = GetSchemaDependenciesSchema.parse(args || {});
+          const match = workspace.findSchema(schemaName, spec);
+          const graph = new SchemaGraph(match.spec.doc, [], swaggerFetcher.getSchemas(match.spec.doc));
         
-        if (!args) {
-          throw new Error('No arguments provided for get_schema');
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  spec: match.spec.name,
+                  schema: schemaName,
+                  ...graph.schemaDependencies(schemaName, maxDepth),
+                }, null, 2),
+              },
+            ],
+          };
         }
-        const { schemaName } = GetSchemaSchema.parse(args);
-        const schemas = swaggerFetcher.getSchemas(cachedSwaggerDoc);
-        const schema = schemas[schemaName];
+
+        case 'get_endpoint': {
+          const { operationId, method, path, spec, expand, maxDepth } = GetEndpointSchema.parse(args || {});
+          const match = workspace.findEndpoint({ operationId, method, path }, spec);
+          const endpoint = new SchemaExpander(match.spec.doc, { mode: expand, maxDepth }).expand(match.endpoint);
+          const { security, auth, satisfied, reasons } = securityAnalyzer.check(match.spec, match.endpoint);
         
-        if (!schema) {
-          throw new Error(`Schema '${schemaName}' not found`);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  spec: match.spec.name,
+                  ...endpoint,
+                  securityRequirements: { ...security, configuredAuth: auth, satisfied, ...(reasons.length > 0 ? { reasons } : {}) },
+                }, null, 2),
+              },
+            ],
+          };
         }
+
+        case 'call_endpoint': {
+          const { operationId, method, path, spec, dryRun, timeout, ...input } = CallEndpointSchema.parse(args || {});
+          const match = workspace.findEndpoint({ operationId, method, path }, spec);
+          const prepared = endpointCaller.prepare(match.spec, match.endpoint, input);
+          const blockedReason = endpointCaller.checkAllowed(match.spec, prepared);
+
+          if (!dryRun && blockedReason) {
+            throw new Error(blockedReason);
+          }
+
+          const result = dryRun
+            ? { dryRun: true, ...(blockedReason ? { blockedReason } : {}) }
+            : await endpointCaller.execute(prepared, timeout);
         
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify(schema, null, 2),
-            },
-          ],
-        };
-      }
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  spec: match.spec.name,
+                  request: endpointCaller.describe(prepared),
+                  ...(prepared.warnings.length > 0 ? { warnings: prepared.warnings } : {}),
+                  ...result,
+                }, null, 2),
+              },
+            ],
+          };
+        }
 
-      case 'get_api_info': {
-        if (!cachedSwaggerDoc) {
-          throw new Error('No Swagger documentation loaded. Please fetch a Swagger document first.');
+        case 'generate_types': {
+          const { schemaName, operationId, method, path, source, spec, zod } = GenerateTypesSchema.parse(args || {});
+          let specName: string;
+          let generated;
+
+          if (schemaName) {
+            const match = workspace.findSchema(schemaName, spec);
+            specName = match.spec.name;
+            generated = new TypeGenerator(match.spec.doc, { zod }).forSchema(schemaName);
+          } else if (operationId || (method && path)) {
+            const match = workspace.findEndpoint({ operationId, method, path }, spec);
+            specName = match.spec.name;
+            generated = new TypeGenerator(match.spec.doc, { zod }).forOperation(match.endpoint);
+          } else if (source) {
+            const loaded = workspace.get(spec);
+            const sourceDoc = loaded.sourceDocs.get(source);
+            if (!sourceDoc) {
+              throw new Error(`API source '${source}' not found`);
+            }
+            specName = loaded.name;
+            generated = new TypeGenerator(sourceDoc, { zod }).forAllSchemas();
+          } else {
+            throw new Error('Provide a schemaName, an operation (operationId or method and path), or a source');
+          }
+        
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  spec: specName,
+                  types: generated.types,
+                  code: generated.code,
+                }, null, 2),
+              },
+            ],
+          };
         }
+
+        case 'generate_example': {
+          const { operationId, method, path, spec, seed, includeOptional } = GenerateExampleSchema.parse(args || {});
+          const match = workspace.findEndpoint({ operationId, method, path }, spec);
+          const examples = new ExampleGenerator(match.spec.doc, { seed, includeOptional }).forOperation(match.endpoint);
         
-        const schemas = swaggerFetcher.getSchemas(cachedSwaggerDoc);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  spec: match.spec.name,
+                  operation: {
+                    method: match.endpoint.method,
+                    path: match.endpoint.path,
+                    operationId: match.endpoint.operationId,
+                  },
+                  seed,
+                  ...examples,
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'generate_snippet': {
+          const { operationId, method, path, spec, languages, baseUrl, includeOptional } = GenerateSnippetSchema.parse(args || {});
+          const match = workspace.findEndpoint({ operationId, method, path }, spec);
+          const generated = snippetGenerator.generate(match.spec, match.endpoint, { languages, baseUrl, includeOptional });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  spec: match.spec.name,
+                  operation: {
+                    method: match.endpoint.method,
+                    path: match.endpoint.path,
+                    operationId: match.endpoint.operationId,
+                  },
+                  ...generated,
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'export_collection': {
+          const { format, spec, source, tag, outputPath } = ExportCollectionSchema.parse(args || {});
+          const loaded = workspace.get(spec);
+          if (source && !loaded.sourceDocs.has(source)) {
+            throw new Error(`API source '${source}' not found`);
+          }
+          const endpoints = (tag ? swaggerFetcher.getEndpointsByTag(loaded.doc, tag) : swaggerFetcher.getEndpoints(loaded.doc))
+            .filter(endpoint => !source || endpoint.source === source);
+          if (endpoints.length === 0) {
+            throw new Error(`No operations to export${source ? ` from source '${source}'` : ''}${tag ? ` with tag '${tag}'` : ''}`);
+          }
+
+          const title = loaded.doc.info?.title || loaded.name;
+          const name = [title, source, tag].filter(Boolean).join(' - ');
+          const collection = collectionExporter.export(loaded, endpoints, { format, name });
+          const { content, ...summary } = collection;
+          const written = outputPath ? await collectionExporter.save(collection, outputPath) : undefined;
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  spec: loaded.name,
+                  ...summary,
+                  ...(written ? { path: written } : { content }),
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'validate_payload': {
+          if (!args) {
+            throw new Error('No arguments provided for validate_payload');
+          }
+          const { operationId, method, path, spec, direction, status, contentType, payload } = ValidatePayloadSchema.parse(args);
+          const match = workspace.findEndpoint({ operationId, method, path }, spec);
+          const target = resolvePayloadTarget(match.spec.doc, match.endpoint, direction, { status, contentType });
+          const { violations, warnings } = new PayloadValidator(match.spec.doc, direction).validate(target.schema, payload);
         
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                info: cachedSwaggerDoc.info,
-                version: cachedSwaggerDoc.openapi || cachedSwaggerDoc.swagger,
-                tags: cachedSwaggerDoc.tags,
-                pathCount: Object.keys(cachedSwaggerDoc.paths).length,
-                schemaCount: Object.keys(schemas).length,
-                schemaNames: Object.keys(schemas),
-              }, null, 2),
-            },
-          ],
-        };
-      }
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  spec: match.spec.name,
+                  operation: {
+                    method: match.endpoint.method,
+                    path: match.endpoint.path,
+                    operationId: match.endpoint.operationId,
+                  },
+                  direction,
+                  ...(target.status ? { status: target.status } : {}),
+                  contentType: target.contentType,
+                  valid: violations.length === 0,
+                  violations,
+                  ...(warnings.length > 0 ? { warnings } : {}),
+                }, null, 2),
+              },
+            ],
+          };
+        }
 
-      case 'validate_swagger': {
-        const { url } = z.object({ url: z.string().url().optional() }).parse(args || {});
-        const swaggerUrl = url || config.swaggerUrl;
+        case 'diff_specs': {
+          if (!args) {
+            throw new Error('No arguments provided for diff_specs');
+          }
+          const { base, head, baseSource, headSource, format } = DiffSpecsSchema.parse(args);
+          let baseDoc: SwaggerDoc;
+          let headDoc: SwaggerDoc;
+
+          if (head) {
+            baseDoc = await resolveDiffTarget(base, baseSource);
+            headDoc = await resolveDiffTarget(head, headSource || baseSource);
+          } else if (workspace.has(base)) {
+            const loaded = workspace.get(base);
+            baseDoc = pickSource(loaded.doc, loaded.sourceDocs, baseSource);
+            await swaggerFetcher.invalidate(loaded.location);
+            const reloaded = await workspace.load(loaded.location, loaded.name);
+            await notify(() => server.sendResourceListChanged());
+            headDoc = pickSource(reloaded.doc, reloaded.sourceDocs, headSource || baseSource);
+          } else {
+            const cachedDoc = swaggerFetcher.getCachedDoc(base);
+            if (!cachedDoc || baseSource) {
+              throw new Error(`No previously fetched version of '${base}' to compare against. Please fetch it first or provide head.`);
+            }
+            baseDoc = cachedDoc;
+            await swaggerFetcher.invalidate(base);
+            headDoc = (await swaggerFetcher.fetchSwaggerDoc(base)).doc;
+          }
 
-        if (!swaggerUrl) {
-          throw new Error('No Swagger URL provided. Please provide a URL parameter or configure SWAGGER_URL in your environment.');
+          const differ = new SpecDiffer(swaggerFetcher);
+          const diff = differ.diff(baseDoc, headDoc);
+        
+          return {
+            content: [
+              {
+                type: 'text',
+                text: format === 'changelog'
+                  ? differ.toChangelog(diff)
+                  : JSON.stringify({
+                    ...diff,
+                    ...(format === 'both' ? { changelog: differ.toChangelog(diff) } : {}),
+                  }, null, 2),
+              },
+            ],
+          };
         }
 
-        const isValid = await swaggerFetcher.validateSwaggerDoc(swaggerUrl);
+        case 'get_api_info': {
+          const { spec } = GetApiInfoSchema.parse(args || {});
+          const apiInfos = workspace.resolve(spec).map(loaded => {
+            const schemas = swaggerFetcher.getSchemas(loaded.doc);
+            return {
+              spec: loaded.name,
+              info: loaded.doc.info,
+              version: loaded.doc.openapi,
+              originalVersion: specVersion(loaded),
+              tags: loaded.doc.tags,
+              pathCount: Object.keys(loaded.doc.paths).length,
+              schemaCount: Object.keys(schemas).length,
+              schemaNames: Object.keys(schemas),
+            };
+          });
+        
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(apiInfos.length === 1 ? apiInfos[0] : { specs: apiInfos }, null, 2),
+              },
+            ],
+          };
+        }
 
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                valid: isValid,
-                message: isValid ? 'Swagger document is valid' : 'Swagger document is invalid',
-              }, null, 2),
-            },
-          ],
-        };
-      }
+        case 'validate_swagger': {
+          const { url } = z.object({ url: z.string().optional() }).parse(args || {});
+          const swaggerUrl = url || config.swaggerUrl;
+
+          if (!swaggerUrl) {
+            throw new Error('No Swagger URL provided. Please provide a URL parameter or configure SWAGGER_URL in your environment.');
+          }
+
+          const report = await swaggerFetcher.validateSwaggerDoc(swaggerUrl);
 
-      case 'get_api_sources': {
-        if (!cachedSwaggerDoc) {
-          throw new Error('No Swagger documentation loaded. Please fetch a Swagger document first.');
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  ...report,
+                  message: report.valid
+                    ? `Swagger document is valid (${report.warnings} warning(s))`
+                    : `Swagger document is invalid: ${report.errors} error(s), ${report.warnings} warning(s)`,
+                }, null, 2),
+              },
+            ],
+          };
         }
+
+        case 'get_api_sources': {
+          const { spec } = SpecArgumentSchema.parse(args || {});
+          const sources = workspace.get(spec).sources;
         
-        const sources = swaggerFetcher.getApiSources();
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  sources,
+                  count: sources.length,
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'get_doc_by_source': {
+          if (!args) {
+            throw new Error('No arguments provided for get_doc_by_source');
+          }
+          const { sourceName, spec } = z.object({ sourceName: z.string(), spec: z.string().optional() }).parse(args);
+          const sourceDoc = workspace.get(spec).sourceDocs.get(sourceName);
         
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                sources,
-                count: sources.length,
-              }, null, 2),
-            },
-          ],
-        };
-      }
+          if (!sourceDoc) {
+            throw new Error(`API source '${sourceName}' not found`);
+          }
+        
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  source: sourceName,
+                  info: sourceDoc.info,
+                  pathCount: Object.keys(sourceDoc.paths).length,
+                  schemas: swaggerFetcher.getSchemas(sourceDoc),
+                }, null, 2),
+              },
+            ],
+          };
+        }
 
-      case 'get_doc_by_source': {
-        if (!cachedSwaggerDoc) {
-          throw new Error('No Swagger documentation loaded. Please fetch a Swagger document first.');
+        case 'get_merge_conflicts': {
+          const { spec } = SpecArgumentSchema.parse(args || {});
+          const loaded = workspace.get(spec);
+        
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  spec: loaded.name,
+                  conflicts: loaded.conflicts,
+                  count: loaded.conflicts.length,
+                }, null, 2),
+              },
+            ],
+          };
         }
+
+        case 'list_specs': {
+          const specs = workspace.list().map(loaded => ({
+            name: loaded.name,
+            location: loaded.location,
+            title: loaded.doc.info?.title,
+            version: loaded.doc.info?.version,
+            pathCount: Object.keys(loaded.doc.paths || {}).length,
+            sourceCount: loaded.sources.length,
+            loadedAt: new Date(loaded.loadedAt).toISOString(),
+          }));
         
-        if (!args) {
-          throw new Error('No arguments provided for get_doc_by_source');
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  specs,
+                  count: specs.length,
+                }, null, 2),
+              },
+            ],
+          };
         }
-        const { sourceName } = z.object({ sourceName: z.string() }).parse(args);
-        const sourceDoc = swaggerFetcher.getDocBySource(sourceName);
+
+        case 'unload_spec': {
+          if (!args) {
+            throw new Error('No arguments provided for unload_spec');
+          }
+          const { name: specName } = UnloadSpecSchema.parse(args);
+        
+          if (!workspace.unload(specName)) {
+            throw new Error(`Spec '${specName}' is not loaded`);
+          }
+          await notify(() => server.sendResourceListChanged());
         
-        if (!sourceDoc) {
-          throw new Error(`API source '${sourceName}' not found`);
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  unloaded: specName,
+                  remaining: workspace.list().map(loaded => loaded.name),
+                }, null, 2),
+              },
+            ],
+          };
         }
+
+        case 'get_security_schemes': {
+          const { spec } = SpecArgumentSchema.parse(args || {});
+          const loaded = workspace.get(spec);
+          const schemes = securityAnalyzer.describeSchemes(loaded, swaggerFetcher.getEndpoints(loaded.doc));
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  spec: loaded.name,
+                  defaultSecurity: loaded.doc.security || null,
+                  configuredAuth: config.auth.type,
+                  schemes,
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'check_security': {
+          const { spec, unsatisfiedOnly } = CheckSecuritySchema.parse(args || {});
+          const checks = workspace.resolve(spec).flatMap(loaded => swaggerFetcher.getEndpoints(loaded.doc)
+            .map(endpoint => ({ spec: loaded.name, ...securityAnalyzer.check(loaded, endpoint) })));
+          const unsatisfied = checks.filter(check => !check.satisfied);
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  total: checks.length,
+                  satisfied: checks.length - unsatisfied.length,
+                  unsatisfied: unsatisfied.length,
+                  operations: unsatisfiedOnly ? unsatisfied : checks,
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'get_config': {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  configFile: configOrigin.file || null,
+                  profile: configOrigin.profile || null,
+                  profiles: configOrigin.profiles,
+                  environmentOverrides: configOrigin.environment,
+                  config: maskConfig(config),
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'get_watch_status': {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(watcher.getStatus(), null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'cache_status': {
+          const status = await swaggerFetcher.getCacheStatus();
         
-        return {
-          content: [
-            {
-              type: 'text',
-              text: JSON.stringify({
-                source: sourceName,
-                info: sourceDoc.info,
-                pathCount: Object.keys(sourceDoc.paths).length,
-                schemas: swaggerFetcher.getSchemas(sourceDoc),
-              }, null, 2),
-            },
-          ],
-        };
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify(status, null, 2),
+              },
+            ],
+          };
+        }
+
+        case 'clear_cache': {
+          const { url } = ClearCacheSchema.parse(args || {});
+          const removed = await swaggerFetcher.clearCache(url);
+        
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  success: true,
+                  removed,
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        default:
+          throw new Error(`Unknown tool: ${name}`);
       }
+    } catch (error) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              error: true,
+              message: error instanceof Error ? error.message : 'An unknown error occurred',
+            }, null, 2),
+          },
+        ],
+      };
+    }
+  });
 
-      default:
-        throw new Error(`Unknown tool: ${name}`);
+  // A diff target is a loaded spec name, or else a URL or path fetched on the fly
+  async function resolveDiffTarget(target: string, source?: string): Promise<SwaggerDoc> {
+    if (workspace.has(target)) {
+      const loaded = workspace.get(target);
+      return pickSource(loaded.doc, loaded.sourceDocs, source);
     }
-  } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            error: true,
-            message: error instanceof Error ? error.message : 'An unknown error occurred',
-          }, null, 2),
-        },
-      ],
-    };
+    const { doc, sourceDocs } = await swaggerFetcher.fetchSwaggerDoc(target);
+    return pickSource(doc, sourceDocs, source);
   }
-});
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: specResources.list() };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: RESOURCE_TEMPLATES };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return { contents: [specResources.read(request.params.uri)] };
+  });
+
+  for (const spec of config.specs) {
+    try {
+      await workspace.load(spec.url, spec.name);
+    } catch (error) {
+      console.error(`Failed to preload spec '${spec.name}' from ${spec.url}:`, error);
+    }
+  }
+
+  watcher.start();
+
+  return server;
+}
 
 async function main() {
+  if (config.server.transport === 'http') {
+    const httpServer = McpHttpServer.fromConfig(config, createSession);
+    const { host, port } = await httpServer.listen();
+    console.error(`Swagger Docs MCP server listening on http://${host}:${port} (Streamable HTTP at /mcp, SSE at /sse)`);
+    if (!config.server.authToken) {
+      console.error('MCP_AUTH_TOKEN is not set; any client that can reach the server can use it');
+    }
+    return;
+  }
+
+  const server = await createSession();
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('Swagger Docs MCP server running on stdio');
@@ -376,4 +1706,4 @@ async function main() {
 main().catch((error) => {
   console.error('Server error:', error);
   process.exit(1);
-});
\ No newline at end of file
+});
@@ -0,0 +1,143 @@
+import axios from 'axios';
+
+export type OAuth2GrantType = 'client_credentials' | 'password';
+
+export interface OAuth2Settings {
+  grantType: OAuth2GrantType;
+  tokenUrl?: string;
+  clientId?: string;
+  clientSecret?: string;
+  clientAuth: 'body' | 'basic';
+  scopes: string[];
+  audience?: string;
+  username?: string;
+  password?: string;
+}
+
+interface CachedToken {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt: number | null; // null when the server gives no expires_in; kept until a 401
+  refreshAt: number | null;
+}
+
+const TOKEN_REQUEST_TIMEOUT = 10000;
+const REFRESH_MARGIN_MS = 60000;
+
+export class OAuth2TokenProvider {
+  private token: CachedToken | null = null;
+  private pending: Promise<CachedToken> | null = null;
+
+  constructor(private settings: OAuth2Settings) {}
+
+  // Returns the cached token while it's still valid, without fetching
+  getCachedToken(): string | null {
+    if (!this.token || (this.token.expiresAt !== null && Date.now() >= this.token.expiresAt)) {
+      return null;
+    }
+    return this.token.accessToken;
+  }
+
+  async getToken(): Promise<string> {
+    const token = this.token;
+    if (token && (token.refreshAt === null || Date.now() < token.refreshAt)) {
+      return token.accessToken;
+    }
+
+    // Concurrent callers share a single token request
+    if (!this.pending) {
+      this.pending = this.fetchToken(token?.refreshToken).finally(() => {
+        this.pending = null;
+      });
+    }
+    this.token = await this.pending;
+    return this.token.accessToken;
+  }
+
+  invalidate(): void {
+    this.token = null;
+  }
+
+  private async fetchToken(refreshToken?: string): Promise<CachedToken> {
+    if (refreshToken) {
+      try {
+        return await this.requestToken({ grant_type: 'refresh_token', refresh_token: refreshToken });
+      } catch (error) {
+        console.error(`[OAuth2] Refresh token rejected, requesting a new token: ${error}`);
+      }
+    }
+
+    const { grantType, username, password } = this.settings;
+    if (grantType === 'password') {
+      if (!username || !password) {
+        throw new Error('OAuth2 password grant requires AUTH_USERNAME and AUTH_PASSWORD');
+      }
+      return this.requestToken({ grant_type: 'password', username, password });
+    }
+    return this.requestToken({ grant_type: 'client_credentials' });
+  }
+
+  private async requestToken(grant: Record<string, string>): Promise<CachedToken> {
+    const { tokenUrl, clientId, clientSecret, clientAuth, scopes, audience } = this.settings;
+    if (!tokenUrl || !clientId) {
+      throw new Error('OAuth2 auth requires OAUTH_TOKEN_URL and OAUTH_CLIENT_ID');
+    }
+
+    const form = new URLSearchParams(grant);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json',
+    };
+    if (clientAuth === 'basic') {
+      const credentials = `${encodeURIComponent(clientId)}:${encodeURIComponent(clientSecret || '')}`;
+      headers['Authorization'] = `Basic ${Buffer.from(credentials).toString('base64')}`;
+    } else {
+      form.set('client_id', clientId);
+      if (clientSecret) {
+        form.set('client_secret', clientSecret);
+      }
+    }
+    if (scopes.length > 0 && grant.grant_type !== 'refresh_token') {
+      form.set('scope', scopes.join(' '));
+    }
+    if (audience && grant.grant_type !== 'refresh_token') {
+      form.set('audience', audience);
+    }
+
+    console.error(`[OAuth2] Requesting ${grant.grant_type} token from ${tokenUrl}`);
+    const response = await axios.post(tokenUrl, form.toString(), {
+      headers,
+      timeout: TOKEN_REQUEST_TIMEOUT,
+      validateStatus: () => true,
+    });
+
+    const data = typeof response.data === 'string' ? this.parseBody(response.data) : response.data;
+    if (response.status < 200 || response.status >= 300 || !data?.access_token) {
+      const reason = data?.error_description || data?.error || `HTTP ${response.status}`;
+      throw new Error(`OAuth2 token request to ${tokenUrl} failed: ${reason}`);
+    }
+
+    const now = Date.now();
+    const lifetime = Number(data.expires_in) * 1000;
+    const expiresAt = lifetime > 0 ? now + lifetime : null;
+    // Refresh ahead of expiry; short-lived tokens are refreshed halfway through their lifetime
+    const refreshAt = expiresAt !== null ? expiresAt - Math.min(REFRESH_MARGIN_MS, lifetime / 2) : null;
+    console.error(`[OAuth2] Token acquired${expiresAt !== null ? `, expires in ${data.expires_in}s` : ''}`);
+
+    return {
+      accessToken: data.access_token,
+      refreshToken: data.refresh_token,
+      expiresAt,
+      refreshAt,
+    };
+  }
+
+  private parseBody(body: string): any {
+    try {
+      return JSON.parse(body);
+    } catch {
+      // Some servers answer with form encoding
+      return Object.fromEntries(new URLSearchParams(body));
+    }
+  }
+}
@@ -0,0 +1,125 @@
+import { SchemaExpander } from './schema-expander.js';
+import { EndpointInfo, SwaggerDoc } from './swagger-fetcher.js';
+
+export interface OperationSchema {
+  contentType: string;
+  schema: any;
+}
+
+export interface ResponseSchema extends OperationSchema {
+  status: string;
+}
+
+const DEFAULT_CONTENT_TYPE = 'application/json';
+
+// Follows $refs to reusable parameters, request bodies and responses (not schemas)
+function resolveComponent(doc: SwaggerDoc, value: any): any {
+  const expander = new SchemaExpander(doc, { mode: 'none', maxDepth: 0 });
+  const seen = new Set<string>();
+  let current = value;
+  while (current && typeof current.$ref === 'string' && !seen.has(current.$ref)) {
+    seen.add(current.$ref);
+    current = expander.resolveRef(current.$ref);
+  }
+  return current;
+}
+
+function pickMediaType(content: Record<string, any>, contentType?: string): string | undefined {
+  const mediaTypes = Object.keys(content || {});
+  if (contentType && mediaTypes.includes(contentType)) {
+    return contentType;
+  }
+  return mediaTypes.find(type => type.includes('json')) || mediaTypes[0];
+}
+
+function getOperation(doc: SwaggerDoc, endpoint: EndpointInfo): Record<string, any> {
+  return doc.paths?.[endpoint.path]?.[endpoint.method.toLowerCase()] || {};
+}
+
+export function resolveParameters(doc: SwaggerDoc, endpoint: EndpointInfo): any[] {
+  // Path-level parameters apply unless the operation overrides them
+  const pathParameters: any[] = doc.paths?.[endpoint.path]?.parameters || [];
+  const byKey = new Map<string, any>();
+
+  for (const parameter of [...pathParameters, ...(endpoint.parameters || [])]) {
+    const resolved = resolveComponent(doc, parameter);
+    if (resolved?.name && resolved?.in) {
+      byKey.set(`${resolved.in}:${resolved.name}`, resolved);
+    }
+  }
+  return Array.from(byKey.values());
+}
+
+// Swagger 2 parameters carry their schema keywords inline
+export function parameterSchema(parameter: any): any {
+  if (parameter.schema) {
+    return parameter.schema;
+  }
+  const { name, in: location, required, description, allowEmptyValue, collectionFormat, ...schema } = parameter;
+  return { ...schema, ...(description ? { description } : {}) };
+}
+
+export function getRequestBodySchema(doc: SwaggerDoc, endpoint: EndpointInfo, contentType?: string): OperationSchema | undefined {
+  const requestBody = resolveComponent(doc, endpoint.requestBody);
+  if (requestBody?.content) {
+    const mediaType = pickMediaType(requestBody.content, contentType);
+    const schema = mediaType ? requestBody.content[mediaType]?.schema : undefined;
+    return mediaType && schema ? { contentType: mediaType, schema } : undefined;
+  }
+
+  const operation = getOperation(doc, endpoint);
+  const consumes: string[] = operation.consumes || doc.consumes || [DEFAULT_CONTENT_TYPE];
+  const parameters = resolveParameters(doc, endpoint);
+
+  const bodyParameter = parameters.find(parameter => parameter.in === 'body');
+  if (bodyParameter?.schema) {
+    const mediaType = contentType && consumes.includes(contentType)
+      ? contentType
+      : consumes.find(type => type.includes('json')) || consumes[0];
+    return { contentType: mediaType, schema: bodyParameter.schema };
+  }
+
+  // Swagger 2 form fields become an object schema
+  const formParameters = parameters.filter(parameter => parameter.in === 'formData');
+  if (formParameters.length > 0) {
+    const hasFile = formParameters.some(parameter => parameter.type === 'file');
+    return {
+      contentType: hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded',
+      schema: {
+        type: 'object',
+        properties: Object.fromEntries(formParameters.map(parameter => [
+          parameter.name,
+          parameter.type === 'file' ? { type: 'string', format: 'binary' } : parameterSchema(parameter),
+        ])),
+        required: formParameters.filter(parameter => parameter.required).map(parameter => parameter.name),
+      },
+    };
+  }
+
+  return undefined;
+}
+
+export function getResponseSchemas(doc: SwaggerDoc, endpoint: EndpointInfo): ResponseSchema[] {
+  const operation = getOperation(doc, endpoint);
+  const produces: string[] = operation.produces || doc.produces || [DEFAULT_CONTENT_TYPE];
+  const results: ResponseSchema[] = [];
+
+  for (const [status, rawResponse] of Object.entries(endpoint.responses || {})) {
+    const response = resolveComponent(doc, rawResponse);
+    if (response?.content) {
+      for (const [contentType, media] of Object.entries<any>(response.content)) {
+        if (media?.schema) {
+          results.push({ status, contentType, schema: media.schema });
+        }
+      }
+    } else if (response?.schema) {
+      results.push({
+        status,
+        contentType: produces.find(type => type.includes('json')) || produces[0],
+        schema: response.schema,
+      });
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,350 @@
+import { getRequestBodySchema, getResponseSchemas, OperationSchema } from './operation-schemas.js';
+import { SchemaExpander } from './schema-expander.js';
+import { EndpointInfo, SwaggerDoc } from './swagger-fetcher.js';
+
+export interface Violation {
+  pointer: string;
+  keyword: string;
+  message: string;
+}
+
+export interface PayloadValidation {
+  violations: Violation[];
+  warnings: string[]; // Constraints that could not be checked
+}
+
+export type PayloadDirection = 'request' | 'response';
+
+export interface PayloadTarget extends OperationSchema {
+  direction: PayloadDirection;
+  status?: string;
+}
+
+const FORMAT_PATTERNS: Record<string, RegExp> = {
+  'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:?\d{2})$/,
+  date: /^\d{4}-\d{2}-\d{2}$/,
+  time: /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:?\d{2})?$/,
+  email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  uuid: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i,
+  ipv4: /^((25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(25[0-5]|2[0-4]\d|1?\d?\d)$/,
+  byte: /^[A-Za-z0-9+/]*={0,2}$/,
+};
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function escapePointer(segment: string | number): string {
+  return String(segment).replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function jsonType(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? 'integer' : 'number';
+  }
+  return typeof value;
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Unicode mode matches patterns the way JSON Schema defines them; patterns written for engines that accept
+// escapes Unicode mode rejects, such as "\\-" outside a character class, fall back to the legacy syntax
+function compilePattern(pattern: string): RegExp | null {
+  for (const flags of ['u', '']) {
+    try {
+      return new RegExp(pattern, flags);
+    } catch {
+      // Try the next syntax
+    }
+  }
+  return null;
+}
+
+// Picks the exact status, then its range (2XX), then 'default'; without a status the first success response wins
+function matchStatus(statuses: string[], status?: string): string | undefined {
+  if (!status) {
+    return statuses.find(code => /^2/.test(code)) || statuses.find(code => code === 'default') || statuses[0];
+  }
+  const range = `${status.charAt(0)}XX`;
+  return statuses.find(code => code === status)
+    || statuses.find(code => code.toUpperCase() === range)
+    || statuses.find(code => code === 'default');
+}
+
+export function resolvePayloadTarget(
+  doc: SwaggerDoc,
+  endpoint: EndpointInfo,
+  direction: PayloadDirection,
+  options: { status?: string; contentType?: string } = {}
+): PayloadTarget {
+  const operation = `${endpoint.method} ${endpoint.path}`;
+
+  if (direction === 'request') {
+    const body = getRequestBodySchema(doc, endpoint, options.contentType);
+    if (!body) {
+      throw new Error(`Operation ${operation} does not define a request body`);
+    }
+    return { direction, ...body };
+  }
+
+  const responses = getResponseSchemas(doc, endpoint);
+  const statuses = Array.from(new Set(responses.map(response => response.status)));
+  const status = matchStatus(statuses, options.status);
+  if (!status) {
+    const available = statuses.length > 0 ? statuses.join(', ') : 'none';
+    throw new Error(`Operation ${operation} has no response body schema for status ${options.status ?? '(any)'} (available: ${available})`);
+  }
+
+  const candidates = responses.filter(response => response.status === status);
+  const match = (options.contentType && candidates.find(response => response.contentType === options.contentType))
+    || candidates.find(response => response.contentType.includes('json'))
+    || candidates[0];
+  return { direction, status, contentType: match.contentType, schema: match.schema };
+}
+
+export class PayloadValidator {
+  private expander: SchemaExpander;
+  private warnings: Set<string> = new Set();
+
+  constructor(doc: SwaggerDoc, private direction: PayloadDirection) {
+    this.expander = new SchemaExpander(doc, { mode: 'none', maxDepth: 0 });
+  }
+
+  validate(schema: any, value: unknown): PayloadValidation {
+    this.warnings = new Set();
+    const violations = this.violationsOf(schema, value);
+    return { violations, warnings: Array.from(this.warnings) };
+  }
+
+  private violationsOf(schema: any, value: unknown): Violation[] {
+    const violations: Violation[] = [];
+    this.check(schema, value, '', violations);
+    return violations;
+  }
+
+  private resolve(schema: any): any {
+    const seen = new Set<string>();
+    let current = schema;
+    while (isPlainObject(current) && typeof current.$ref === 'string' && !seen.has(current.$ref)) {
+      seen.add(current.$ref);
+      current = this.expander.resolveRef(current.$ref);
+    }
+    return current;
+  }
+
+  private check(rawSchema: any, value: unknown, pointer: string, violations: Violation[]): void {
+    const schema = this.resolve(rawSchema);
+    if (!isPlainObject(schema)) {
+      if (schema === false) {
+        violations.push({ pointer, keyword: 'false', message: 'No value is allowed here' });
+      }
+      return;
+    }
+    const add = (keyword: string, message: string) => violations.push({ pointer, keyword, message });
+
+    if (value === null && (schema.nullable === true || schema['x-nullable'] === true)) {
+      return;
+    }
+
+    if (Array.isArray(schema.allOf)) {
+      for (const part of schema.allOf) {
+        this.check(part, value, pointer, violations);
+      }
+    }
+    if (Array.isArray(schema.oneOf) || Array.isArray(schema.anyOf)) {
+      this.checkVariants(schema, value, pointer, violations);
+    }
+    if (schema.not !== undefined && this.violationsOf(schema.not, value).length === 0) {
+      add('not', 'Value must not match the excluded schema');
+    }
+
+    if (Array.isArray(schema.enum) && !schema.enum.some((option: unknown) => deepEqual(option, value))) {
+      add('enum', `Value ${JSON.stringify(value)} is not one of ${JSON.stringify(schema.enum)}`);
+    }
+    if ('const' in schema && !deepEqual(schema.const, value)) {
+      add('const', `Value must be ${JSON.stringify(schema.const)}`);
+    }
+
+    const declaredTypes: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+    if (declaredTypes.length > 0) {
+      const actual = jsonType(value);
+      const matches = declaredTypes.some(type => type === actual || (type === 'number' && actual === 'integer'));
+      if (!matches) {
+        add('type', `Expected ${declaredTypes.join(' or ')} but got ${actual}`);
+        return;
+      }
+    }
+
+    if (typeof value === 'string') {
+      this.checkString(schema, value, add);
+    } else if (typeof value === 'number') {
+      this.checkNumber(schema, value, add);
+    } else if (Array.isArray(value)) {
+      this.checkArray(schema, value, pointer, violations, add);
+    } else if (isPlainObject(value)) {
+      this.checkObject(schema, value, pointer, violations, add);
+    }
+  }
+
+  private checkVariants(schema: Record<string, any>, value: unknown, pointer: string, violations: Violation[]): void {
+    const keyword = Array.isArray(schema.oneOf) ? 'oneOf' : 'anyOf';
+    const variants: any[] = schema[keyword];
+
+    // A discriminator names the variant, which gives far better errors than trying each one
+    const propertyName = isPlainObject(schema.discriminator) ? schema.discriminator.propertyName : undefined;
+    if (propertyName && isPlainObject(value) && typeof value[propertyName] === 'string') {
+      const tag = value[propertyName];
+      const mapped = schema.discriminator.mapping?.[tag];
+      const variant = variants.find(candidate =>
+        typeof candidate?.$ref === 'string' && (candidate.$ref === mapped || candidate.$ref.endsWith(`/${tag}`))
+      );
+      if (variant) {
+        this.check(variant, value, pointer, violations);
+        return;
+      }
+      violations.push({
+        pointer: `${pointer}/${escapePointer(propertyName)}`,
+        keyword: 'discriminator',
+        message: `Unknown discriminator value ${JSON.stringify(tag)}`,
+      });
+      return;
+    }
+
+    const results = variants.map(variant => this.violationsOf(variant, value));
+    const matching = results.filter(result => result.length === 0).length;
+
+    if (keyword === 'oneOf' && matching > 1) {
+      violations.push({ pointer, keyword, message: `Value matches ${matching} variants but must match exactly one` });
+    } else if (matching === 0) {
+      // Report the closest variant's errors so the caller has something actionable
+      const closest = results.reduce((best, result) => (result.length < best.length ? result : best));
+      violations.push({ pointer, keyword, message: `Value does not match any of the ${variants.length} allowed variants` });
+      violations.push(...closest);
+    }
+  }
+
+  private checkString(schema: Record<string, any>, value: string, add: (keyword: string, message: string) => void): void {
+    if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+      add('minLength', `String is shorter than ${schema.minLength} characters`);
+    }
+    if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+      add('maxLength', `String is longer than ${schema.maxLength} characters`);
+    }
+    if (typeof schema.pattern === 'string') {
+      const pattern = compilePattern(schema.pattern);
+      if (!pattern) {
+        this.warnings.add(`Pattern ${schema.pattern} is not a valid JavaScript regular expression and was not checked`);
+      } else if (!pattern.test(value)) {
+        add('pattern', `String does not match pattern ${schema.pattern}`);
+      }
+    }
+    if (typeof schema.format === 'string') {
+      const formatPattern = FORMAT_PATTERNS[schema.format];
+      const isUri = schema.format === 'uri' || schema.format === 'url';
+      if ((formatPattern && !formatPattern.test(value)) || (isUri && !URL.canParse(value))) {
+        add('format', `String is not a valid ${schema.format}`);
+      }
+    }
+  }
+
+  private checkNumber(schema: Record<string, any>, value: number, add: (keyword: string, message: string) => void): void {
+    // Swagger 2 / OpenAPI 3.0 use boolean exclusive flags, OpenAPI 3.1 uses numbers
+    if (typeof schema.minimum === 'number') {
+      if (schema.exclusiveMinimum === true ? value <= schema.minimum : value < schema.minimum) {
+        add('minimum', `Value must be ${schema.exclusiveMinimum === true ? 'greater than' : 'at least'} ${schema.minimum}`);
+      }
+    }
+    if (typeof schema.exclusiveMinimum === 'number' && value <= schema.exclusiveMinimum) {
+      add('exclusiveMinimum', `Value must be greater than ${schema.exclusiveMinimum}`);
+    }
+    if (typeof schema.maximum === 'number') {
+      if (schema.exclusiveMaximum === true ? value >= schema.maximum : value > schema.maximum) {
+        add('maximum', `Value must be ${schema.exclusiveMaximum === true ? 'less than' : 'at most'} ${schema.maximum}`);
+      }
+    }
+    if (typeof schema.exclusiveMaximum === 'number' && value >= schema.exclusiveMaximum) {
+      add('exclusiveMaximum', `Value must be less than ${schema.exclusiveMaximum}`);
+    }
+    if (typeof schema.multipleOf === 'number' && schema.multipleOf > 0) {
+      const quotient = value / schema.multipleOf;
+      if (Math.abs(quotient - Math.round(quotient)) > 1e-9) {
+        add('multipleOf', `Value must be a multiple of ${schema.multipleOf}`);
+      }
+    }
+  }
+
+  private checkArray(
+    schema: Record<string, any>,
+    value: unknown[],
+    pointer: string,
+    violations: Violation[],
+    add: (keyword: string, message: string) => void
+  ): void {
+    if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+      add('minItems', `Array has fewer than ${schema.minItems} items`);
+    }
+    if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+      add('maxItems', `Array has more than ${schema.maxItems} items`);
+    }
+    if (schema.uniqueItems === true && new Set(value.map(item => JSON.stringify(item))).size !== value.length) {
+      add('uniqueItems', 'Array items must be unique');
+    }
+    if (schema.items !== undefined) {
+      value.forEach((item, index) => this.check(schema.items, item, `${pointer}/${index}`, violations));
+    }
+  }
+
+  private checkObject(
+    schema: Record<string, any>,
+    value: Record<string, unknown>,
+    pointer: string,
+    violations: Violation[],
+    add: (keyword: string, message: string) => void
+  ): void {
+    const properties: Record<string, any> = schema.properties || {};
+
+    for (const name of schema.required || []) {
+      if (!(name in value)) {
+        // readOnly properties are only required in responses, writeOnly ones only in requests
+        const property = this.resolve(properties[name]);
+        if ((this.direction === 'request' && property?.readOnly) || (this.direction === 'response' && property?.writeOnly)) {
+          continue;
+        }
+        violations.push({ pointer: `${pointer}/${escapePointer(name)}`, keyword: 'required', message: `Missing required property '${name}'` });
+      }
+    }
+
+    const propertyCount = Object.keys(value).length;
+    if (typeof schema.minProperties === 'number' && propertyCount < schema.minProperties) {
+      add('minProperties', `Object has fewer than ${schema.minProperties} properties`);
+    }
+    if (typeof schema.maxProperties === 'number' && propertyCount > schema.maxProperties) {
+      add('maxProperties', `Object has more than ${schema.maxProperties} properties`);
+    }
+
+    for (const [name, propertyValue] of Object.entries(value)) {
+      const propertyPointer = `${pointer}/${escapePointer(name)}`;
+      if (name in properties) {
+        const property = this.resolve(properties[name]);
+        if (this.direction === 'request' && property?.readOnly) {
+          violations.push({ pointer: propertyPointer, keyword: 'readOnly', message: `Property '${name}' is read-only and must not be sent` });
+        } else if (this.direction === 'response' && property?.writeOnly) {
+          violations.push({ pointer: propertyPointer, keyword: 'writeOnly', message: `Property '${name}' is write-only and must not be returned` });
+        }
+        this.check(properties[name], propertyValue, propertyPointer, violations);
+      } else if (schema.additionalProperties === false) {
+        violations.push({ pointer: propertyPointer, keyword: 'additionalProperties', message: `Property '${name}' is not allowed` });
+      } else if (isPlainObject(schema.additionalProperties)) {
+        this.check(schema.additionalProperties, propertyValue, propertyPointer, violations);
+      }
+    }
+  }
+}
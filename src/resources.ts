@@ -0,0 +1,150 @@
+import { DEFAULT_EXPAND_DEPTH, SchemaExpander } from './schema-expander.js';
+import { EndpointInfo, SwaggerFetcher } from './swagger-fetcher.js';
+import { LoadedSpec, SpecWorkspace } from './workspace.js';
+
+export interface SpecResource {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType: string;
+}
+
+export interface SpecResourceTemplate {
+  uriTemplate: string;
+  name: string;
+  description: string;
+  mimeType: string;
+}
+
+const MIME_TYPE = 'application/json';
+const URI_PATTERN = /^swagger:\/\/([^/]+)\/(operations|schemas|tags)\/(.+)$/;
+
+export const RESOURCE_TEMPLATES: SpecResourceTemplate[] = [
+  {
+    uriTemplate: 'swagger://{source}/operations/{operationId}',
+    name: 'API operation',
+    description: "An operation of a loaded spec with its schemas inlined. Operations without an operationId use 'METHOD /path'.",
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: 'swagger://{source}/schemas/{name}',
+    name: 'API schema',
+    description: 'A schema/model definition of a loaded spec with its references inlined',
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: 'swagger://{source}/tags/{tag}',
+    name: 'API tag',
+    description: 'A tag of a loaded spec and the operations filed under it',
+    mimeType: MIME_TYPE,
+  },
+];
+
+// Operations without an operationId are addressed as "METHOD /path"
+function operationKey(endpoint: EndpointInfo): string {
+  return endpoint.operationId || `${endpoint.method} ${endpoint.path}`;
+}
+
+function resourceUri(source: string, kind: string, key: string): string {
+  return `swagger://${encodeURIComponent(source)}/${kind}/${encodeURIComponent(key)}`;
+}
+
+// Serves loaded specs as MCP resources; {source} is the workspace name of the spec
+export class SpecResources {
+  constructor(private workspace: SpecWorkspace, private fetcher: SwaggerFetcher) {}
+
+  list(): SpecResource[] {
+    return this.workspace.list().flatMap(spec => [
+      ...this.fetcher.getEndpoints(spec.doc).map(endpoint => ({
+        uri: resourceUri(spec.name, 'operations', operationKey(endpoint)),
+        name: `${spec.name}: ${endpoint.method} ${endpoint.path}`,
+        description: endpoint.summary || endpoint.description,
+        mimeType: MIME_TYPE,
+      })),
+      ...Object.entries(this.fetcher.getSchemas(spec.doc)).map(([name, schema]) => ({
+        uri: resourceUri(spec.name, 'schemas', name),
+        name: `${spec.name}: schema ${name}`,
+        description: schema?.description,
+        mimeType: MIME_TYPE,
+      })),
+      ...this.getTags(spec).map(tag => ({
+        uri: resourceUri(spec.name, 'tags', tag.name),
+        name: `${spec.name}: tag ${tag.name}`,
+        description: tag.description,
+        mimeType: MIME_TYPE,
+      })),
+    ]);
+  }
+
+  read(uri: string): { uri: string; mimeType: string; text: string } {
+    const match = uri.match(URI_PATTERN);
+    if (!match) {
+      throw new Error(`Unsupported resource URI: ${uri}. Expected swagger://{source}/operations|schemas|tags/{name}`);
+    }
+    const [, rawSource, kind, rawKey] = match;
+    const spec = this.workspace.get(decodeURIComponent(rawSource));
+    const key = decodeURIComponent(rawKey);
+    const expander = new SchemaExpander(spec.doc, { mode: 'refs', maxDepth: DEFAULT_EXPAND_DEPTH });
+
+    let content: unknown;
+    if (kind === 'operations') {
+      const endpoint = this.findOperation(spec, key);
+      content = { spec: spec.name, ...expander.expand(endpoint) };
+    } else if (kind === 'schemas') {
+      if (!this.fetcher.getSchemas(spec.doc)[key]) {
+        throw new Error(`Schema '${key}' not found in spec '${spec.name}'`);
+      }
+      content = expander.expandSchema(key);
+    } else {
+      const tag = this.getTags(spec).find(candidate => candidate.name === key);
+      if (!tag) {
+        throw new Error(`Tag '${key}' not found in spec '${spec.name}'`);
+      }
+      content = {
+        spec: spec.name,
+        ...tag,
+        operations: this.fetcher.getEndpointsByTag(spec.doc, key).map(endpoint => ({
+          method: endpoint.method,
+          path: endpoint.path,
+          operationId: endpoint.operationId,
+          summary: endpoint.summary,
+          uri: resourceUri(spec.name, 'operations', operationKey(endpoint)),
+        })),
+      };
+    }
+
+    return { uri, mimeType: MIME_TYPE, text: JSON.stringify(content, null, 2) };
+  }
+
+  private findOperation(spec: LoadedSpec, key: string): EndpointInfo {
+    const byId = this.fetcher.findEndpoint(spec.doc, { operationId: key });
+    if (byId) {
+      return byId;
+    }
+
+    const methodAndPath = key.match(/^([A-Za-z]+) (\/.*)$/);
+    const endpoint = methodAndPath
+      ? this.fetcher.findEndpoint(spec.doc, { method: methodAndPath[1], path: methodAndPath[2] })
+      : undefined;
+    if (!endpoint) {
+      throw new Error(`Operation '${key}' not found in spec '${spec.name}'`);
+    }
+    return endpoint;
+  }
+
+  // Declared tags first, then any tag only referenced by operations
+  private getTags(spec: LoadedSpec): Array<{ name: string; description?: string }> {
+    const tags = new Map<string, { name: string; description?: string }>();
+    for (const tag of spec.doc.tags || []) {
+      tags.set(tag.name, { name: tag.name, description: tag.description });
+    }
+    for (const endpoint of this.fetcher.getEndpoints(spec.doc)) {
+      for (const tag of endpoint.tags || []) {
+        if (!tags.has(tag)) {
+          tags.set(tag, { name: tag });
+        }
+      }
+    }
+    return Array.from(tags.values());
+  }
+}
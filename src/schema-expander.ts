@@ -0,0 +1,228 @@
+import { childContext, isNameContext, itemContext, SpecContext } from './spec-refs.js';
+import { SwaggerDoc } from './swagger-fetcher.js';
+
+export type ExpandMode = 'none' | 'refs' | 'full';
+
+export interface ExpandOptions {
+  mode: ExpandMode;
+  maxDepth: number;
+}
+
+export const DEFAULT_EXPAND_DEPTH = 3;
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function refName(ref: string): string {
+  return ref.substring(ref.lastIndexOf('/') + 1);
+}
+
+export class SchemaExpander {
+  constructor(private doc: SwaggerDoc, private options: ExpandOptions) {}
+
+  expandSchema(schemaName: string): any {
+    const ref = this.schemaRef(schemaName);
+    const schema = this.resolvePointer(ref);
+    if (schema === undefined) {
+      throw new Error(`Schema '${schemaName}' not found`);
+    }
+    if (this.options.mode === 'none') {
+      return schema;
+    }
+    // The root schema is on the stack so self-references are reported as cycles
+    return this.expandValue(schema, [ref], 0, 'schema');
+  }
+
+  // Pass 'schema' when value is a schema rather than an operation, parameter or other spec object
+  expand<T>(value: T, context: SpecContext = 'object'): T {
+    if (this.options.mode === 'none') {
+      return value;
+    }
+    return this.expandValue(value, [], 0, context);
+  }
+
+  resolveRef(ref: string): any {
+    return ref.startsWith('#/') ? this.resolvePointer(ref) : undefined;
+  }
+
+  private schemaRef(schemaName: string): string {
+    const escaped = schemaName.replace(/~/g, '~0').replace(/\//g, '~1');
+    if (this.doc.components?.schemas?.[schemaName] !== undefined) {
+      return `#/components/schemas/${escaped}`;
+    }
+    return `#/definitions/${escaped}`;
+  }
+
+  private resolvePointer(ref: string): any {
+    const segments = ref.substring(2).split('/').map(segment =>
+      decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~')
+    );
+
+    let current: any = this.doc;
+    for (const segment of segments) {
+      if (!isPlainObject(current) && !Array.isArray(current)) {
+        current = undefined;
+        break;
+      }
+      current = (current as any)[segment];
+    }
+
+    // Combined docs store every source's schemas under components.schemas,
+    // while Swagger 2 sources still point at #/definitions (and vice versa)
+    if (current === undefined) {
+      if (segments.length === 2 && segments[0] === 'definitions') {
+        current = this.doc.components?.schemas?.[segments[1]];
+      } else if (segments.length === 3 && segments[0] === 'components' && segments[1] === 'schemas') {
+        current = this.doc.definitions?.[segments[2]];
+      }
+    }
+
+    return current;
+  }
+
+  private expandValue(value: any, refStack: string[], depth: number, context: SpecContext): any {
+    if (Array.isArray(value)) {
+      return value.map(item => this.expandValue(item, refStack, depth, itemContext(context)));
+    }
+    if (!isPlainObject(value)) {
+      return value;
+    }
+    if (typeof value.$ref === 'string' && !isNameContext(context)) {
+      return this.expandRef(value, refStack, depth, context);
+    }
+
+    const result: Record<string, any> = {};
+    for (const [key, child] of Object.entries(value)) {
+      // Examples, defaults and enums are literal data, even where they contain "$ref"
+      const next = childContext(key, context);
+      result[key] = next ? this.expandValue(child, refStack, depth, next) : child;
+    }
+
+    if (this.options.mode === 'full' && context === 'schema') {
+      this.annotateDiscriminator(result, refStack);
+      if (Array.isArray(result.allOf)) {
+        return this.mergeAllOf(result);
+      }
+    }
+
+    return result;
+  }
+
+  // A reference stands for the kind of object found where it is, so its target is read in that context
+  private expandRef(value: Record<string, any>, refStack: string[], depth: number, context: SpecContext): any {
+    const { $ref: ref, ...siblings } = value;
+
+    if (!ref.startsWith('#/')) {
+      return { ...value, 'x-external-ref': true };
+    }
+    if (refStack.includes(ref)) {
+      return { $ref: ref, 'x-circular-ref': true };
+    }
+    if (depth >= this.options.maxDepth) {
+      return { $ref: ref, 'x-max-depth-reached': true };
+    }
+
+    const target = this.resolvePointer(ref);
+    if (target === undefined) {
+      return { $ref: ref, 'x-unresolved-ref': true };
+    }
+
+    const expanded = this.expandValue(target, [...refStack, ref], depth + 1, context);
+    if (!isPlainObject(expanded)) {
+      return expanded;
+    }
+    return { 'x-ref': ref, ...expanded, ...siblings };
+  }
+
+  private mergeAllOf(schema: Record<string, any>): Record<string, any> {
+    const { allOf, ...ownKeywords } = schema;
+    const merged: Record<string, any> = {};
+    const mergedFrom: string[] = [];
+    // Members that are still references (cycles, depth limit) cannot be merged
+    const unmerged: any[] = [];
+
+    for (const part of allOf) {
+      if (!isPlainObject(part) || typeof part.$ref === 'string') {
+        unmerged.push(part);
+        continue;
+      }
+
+      const { 'x-ref': partRef, properties, required, ...keywords } = part;
+      if (partRef) {
+        mergedFrom.push(refName(partRef));
+      }
+      if (properties) {
+        merged.properties = { ...merged.properties, ...properties };
+      }
+      if (Array.isArray(required)) {
+        merged.required = Array.from(new Set([...(merged.required || []), ...required]));
+      }
+      for (const [key, keyword] of Object.entries(keywords)) {
+        if (!(key in merged)) {
+          merged[key] = keyword;
+        }
+      }
+    }
+
+    const { properties, required, ...otherKeywords } = ownKeywords;
+    if (properties) {
+      merged.properties = { ...merged.properties, ...properties };
+    }
+    if (Array.isArray(required)) {
+      merged.required = Array.from(new Set([...(merged.required || []), ...required]));
+    }
+    Object.assign(merged, otherKeywords);
+
+    if (mergedFrom.length > 0) {
+      merged['x-merged-from'] = mergedFrom;
+    }
+    if (unmerged.length > 0) {
+      merged.allOf = unmerged;
+    }
+    return merged;
+  }
+
+  private annotateDiscriminator(schema: Record<string, any>, refStack: string[]): void {
+    const discriminator = schema.discriminator;
+    const variantKind = Array.isArray(schema.oneOf) ? 'oneOf' : Array.isArray(schema.anyOf) ? 'anyOf' : null;
+
+    if (variantKind) {
+      const mapping: Record<string, string> = isPlainObject(discriminator) ? discriminator.mapping || {} : {};
+      const variants: Record<string, string> = {};
+
+      schema[variantKind].forEach((variant: any, index: number) => {
+        const variantRef = isPlainObject(variant) ? variant['x-ref'] || variant.$ref : undefined;
+        const variantName = variantRef ? refName(variantRef) : `variant ${index + 1}`;
+        const mappedValue = Object.keys(mapping).find(key =>
+          mapping[key] === variantRef || mapping[key] === variantName
+        );
+        variants[mappedValue || variantName] = variantName;
+      });
+
+      schema['x-variants'] = {
+        kind: variantKind === 'oneOf' ? 'exactly one variant must match' : 'one or more variants may match',
+        ...(discriminator ? { discriminatorProperty: isPlainObject(discriminator) ? discriminator.propertyName : discriminator } : {}),
+        variants,
+      };
+      return;
+    }
+
+    // Swagger 2 discriminators name a property; subtypes extend the base via allOf
+    if (typeof discriminator === 'string' && refStack.length > 0) {
+      const baseRef = refStack[refStack.length - 1];
+      const definitions = { ...this.doc.definitions, ...this.doc.components?.schemas };
+      const subtypes = Object.entries(definitions)
+        .filter(([, definition]) => Array.isArray(definition?.allOf) && definition.allOf.some((part: any) =>
+          typeof part?.$ref === 'string' && refName(part.$ref) === refName(baseRef)
+        ))
+        .map(([name]) => name);
+
+      schema['x-variants'] = {
+        kind: 'subtype selected by discriminator',
+        discriminatorProperty: discriminator,
+        variants: Object.fromEntries(subtypes.map(name => [name, name])),
+      };
+    }
+  }
+}
@@ -0,0 +1,211 @@
+import { parameterSchema, resolveParameters } from './operation-schemas.js';
+import { SchemaExpander } from './schema-expander.js';
+import { visitSpecObjects } from './spec-refs.js';
+import { EndpointInfo, SwaggerDoc } from './swagger-fetcher.js';
+
+export type UsageLocation = 'requestBody' | 'response' | 'parameter';
+
+export interface OperationUsage {
+  method: string;
+  path: string;
+  operationId?: string;
+  location: UsageLocation;
+  status?: string;
+  contentType?: string;
+  parameter?: string;
+  direct: boolean;
+  via?: string[]; // Schemas leading from the operation to the one looked up, when not direct
+}
+
+export interface SchemaUsage {
+  schema: string;
+  direct: boolean;
+  via?: string[];
+}
+
+export interface SchemaDependency {
+  schema: string;
+  depth: number;
+  path: string[];
+}
+
+interface SchemaSite {
+  location: UsageLocation;
+  status?: string;
+  contentType?: string;
+  parameter?: string;
+  schema: any;
+}
+
+const SCHEMA_REF_PATTERN = /^#\/(?:components\/schemas|definitions)\/(.+)$/;
+
+function schemaRefs(value: any): Set<string> {
+  const found = new Set<string>();
+  visitSpecObjects(value, node => {
+    const match = typeof node.$ref === 'string' ? node.$ref.match(SCHEMA_REF_PATTERN) : null;
+    if (match) {
+      found.add(decodeURIComponent(match[1]).replace(/~1/g, '/').replace(/~0/g, '~'));
+    }
+  }, 'schema');
+  return found;
+}
+
+// Which schemas reference which, and where operations use them
+export class SchemaGraph {
+  private dependencies: Map<string, Set<string>> = new Map();
+  private dependents: Map<string, Set<string>> = new Map();
+  private expander: SchemaExpander;
+
+  constructor(private doc: SwaggerDoc, private endpoints: EndpointInfo[], schemas: Record<string, any>) {
+    this.expander = new SchemaExpander(doc, { mode: 'none', maxDepth: 0 });
+    for (const [name, schema] of Object.entries(schemas)) {
+      const refs = schemaRefs(schema);
+      this.dependencies.set(name, refs);
+      for (const ref of refs) {
+        const users = this.dependents.get(ref) || new Set<string>();
+        users.add(name);
+        this.dependents.set(ref, users);
+      }
+    }
+  }
+
+  has(schemaName: string): boolean {
+    return this.dependencies.has(schemaName);
+  }
+
+  // Schemas that reference the given one, directly or through other schemas
+  schemaUsages(schemaName: string): SchemaUsage[] {
+    const chains = this.walk(schemaName, this.dependents);
+    return Array.from(chains.entries()).map(([schema, chain]) => ({
+      schema,
+      direct: chain.length === 0,
+      ...(chain.length > 0 ? { via: [...chain].reverse() } : {}),
+    }));
+  }
+
+  // Every place an operation uses the given schema, directly or through the schemas it references
+  operationUsages(schemaName: string): OperationUsage[] {
+    // For each schema that leads to the target, the chain from it down to the target
+    const routes = new Map<string, string[]>([[schemaName, []]]);
+    for (const [schema, chain] of this.walk(schemaName, this.dependents)) {
+      routes.set(schema, [...chain].reverse());
+    }
+
+    const usages: OperationUsage[] = [];
+    for (const endpoint of this.endpoints) {
+      for (const site of this.schemaSites(endpoint)) {
+        const refs = schemaRefs(site.schema);
+        // Prefer the shortest route when a site reaches the schema in several ways
+        let best: string[] | undefined;
+        for (const ref of refs) {
+          const route = routes.get(ref);
+          if (route !== undefined) {
+            const via = ref === schemaName ? [] : [ref, ...route];
+            if (!best || via.length < best.length) {
+              best = via;
+            }
+          }
+        }
+        if (best === undefined) {
+          continue;
+        }
+        usages.push({
+          method: endpoint.method,
+          path: endpoint.path,
+          ...(endpoint.operationId ? { operationId: endpoint.operationId } : {}),
+          location: site.location,
+          ...(site.status ? { status: site.status } : {}),
+          ...(site.contentType ? { contentType: site.contentType } : {}),
+          ...(site.parameter ? { parameter: site.parameter } : {}),
+          direct: best.length === 0,
+          ...(best.length > 0 ? { via: best } : {}),
+        });
+      }
+    }
+    return usages;
+  }
+
+  // The schemas the given one depends on, breadth first, up to maxDepth levels
+  schemaDependencies(schemaName: string, maxDepth: number = Infinity): { dependencies: SchemaDependency[]; edges: Array<{ from: string; to: string }> } {
+    const chains = this.walk(schemaName, this.dependencies, maxDepth);
+    const included = new Set([schemaName, ...chains.keys()]);
+    const edges = Array.from(included).flatMap(from =>
+      Array.from(this.dependencies.get(from) || [])
+        .filter(to => included.has(to))
+        .map(to => ({ from, to }))
+    );
+    return {
+      dependencies: Array.from(chains.entries()).map(([schema, chain]) => ({
+        schema,
+        depth: chain.length + 1,
+        path: [schemaName, ...chain, schema],
+      })),
+      edges,
+    };
+  }
+
+  // Breadth-first walk from a schema, returning each reached schema with the schemas in between,
+  // in the order they were walked
+  private walk(start: string, adjacency: Map<string, Set<string>>, maxDepth: number = Infinity): Map<string, string[]> {
+    const chains = new Map<string, string[]>();
+    let frontier: Array<{ name: string; chain: string[] }> = [{ name: start, chain: [] }];
+    let depth = 0;
+
+    while (frontier.length > 0 && depth < maxDepth) {
+      const next: Array<{ name: string; chain: string[] }> = [];
+      for (const { name, chain } of frontier) {
+        for (const neighbour of adjacency.get(name) || []) {
+          if (neighbour === start || chains.has(neighbour)) {
+            continue;
+          }
+          chains.set(neighbour, chain);
+          next.push({ name: neighbour, chain: [...chain, neighbour] });
+        }
+      }
+      frontier = next;
+      depth++;
+    }
+    return chains;
+  }
+
+  private resolve(value: any): any {
+    const seen = new Set<string>();
+    let current = value;
+    while (current && typeof current.$ref === 'string' && !SCHEMA_REF_PATTERN.test(current.$ref) && !seen.has(current.$ref)) {
+      seen.add(current.$ref);
+      current = this.expander.resolveRef(current.$ref);
+    }
+    return current;
+  }
+
+  private schemaSites(endpoint: EndpointInfo): SchemaSite[] {
+    const sites: SchemaSite[] = [];
+
+    for (const parameter of resolveParameters(this.doc, endpoint)) {
+      if (parameter.in === 'body' || parameter.in === 'formData') {
+        sites.push({ location: 'requestBody', parameter: parameter.name, schema: parameterSchema(parameter) });
+        continue;
+      }
+      const schema = parameter.content
+        ? Object.values<any>(parameter.content).map(media => media?.schema)
+        : parameterSchema(parameter);
+      sites.push({ location: 'parameter', parameter: `${parameter.in}:${parameter.name}`, schema });
+    }
+
+    const requestBody = this.resolve(endpoint.requestBody);
+    for (const [contentType, media] of Object.entries<any>(requestBody?.content || {})) {
+      sites.push({ location: 'requestBody', contentType, schema: media?.schema });
+    }
+
+    for (const [status, rawResponse] of Object.entries(endpoint.responses || {})) {
+      const response = this.resolve(rawResponse);
+      if (response?.schema) {
+        sites.push({ location: 'response', status, schema: response.schema });
+      }
+      for (const [contentType, media] of Object.entries<any>(response?.content || {})) {
+        sites.push({ location: 'response', status, contentType, schema: media?.schema });
+      }
+    }
+    return sites;
+  }
+}
@@ -0,0 +1,285 @@
+import { getRequestBodySchema, getResponseSchemas, resolveParameters } from './operation-schemas.js';
+import { SchemaExpander } from './schema-expander.js';
+import { EndpointInfo, SwaggerDoc } from './swagger-fetcher.js';
+
+export interface EndpointHit {
+  spec: string;
+  endpoint: EndpointInfo;
+  score: number;
+  highlights: Record<string, string | string[]>;
+}
+
+export interface SchemaHit {
+  spec: string;
+  name: string;
+  score: number;
+  highlights: Record<string, string | string[]>;
+}
+
+// One loaded spec's share of an index
+export interface SearchableSpec {
+  name: string;
+  doc: SwaggerDoc;
+  endpoints: EndpointInfo[];
+  schemas: Record<string, any>;
+}
+
+type FieldValue = string | string[];
+
+interface IndexedDocument<T> {
+  item: T;
+  fields: Record<string, FieldValue>;
+  terms: Record<string, Map<string, number>>;
+  lengths: Record<string, number>;
+}
+
+// Identifiers weigh more than prose; a hit in operationId or summary says more than one in a description
+const ENDPOINT_BOOSTS: Record<string, number> = {
+  operationId: 3,
+  summary: 2.5,
+  path: 2,
+  tags: 1.5,
+  parameters: 1.5,
+  properties: 1,
+  description: 0.75,
+};
+
+const SCHEMA_BOOSTS: Record<string, number> = {
+  name: 3,
+  title: 2.5,
+  properties: 1.5,
+  description: 0.75,
+};
+
+// Standard BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+// Query words also match longer index terms they start with ("auth" finds "authentication"), at a discount
+const PREFIX_WEIGHT = 0.5;
+const MIN_PREFIX_LENGTH = 3;
+const MAX_PROPERTY_DEPTH = 3;
+const SNIPPET_RADIUS = 60;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'by', 'for', 'from', 'in', 'is', 'of', 'on', 'or', 'the', 'to', 'with']);
+
+// Splits camelCase, PascalCase, snake_case, kebab-case and paths into lower-cased words,
+// with a light plural stem so "users" matches "user"
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !STOP_WORDS.has(token))
+    .map(token => token.length > 3 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token);
+}
+
+function fieldText(value: FieldValue): string {
+  return Array.isArray(value) ? value.join(' ') : value;
+}
+
+// Wraps matched words in **, keeping a window around the first match for long text
+function highlight(text: string, matched: Set<string>): string {
+  let first = -1;
+  const marked = text.replace(/[A-Za-z0-9_]+/g, (word, index: number) => {
+    if (!tokenize(word).some(token => matched.has(token))) {
+      return word;
+    }
+    if (first < 0) {
+      first = index;
+    }
+    return `**${word}**`;
+  });
+  if (marked.length <= SNIPPET_RADIUS * 3 || first < 0) {
+    return marked;
+  }
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(marked.length, first + SNIPPET_RADIUS * 2);
+  return `${start > 0 ? '...' : ''}${marked.slice(start, end)}${end < marked.length ? '...' : ''}`;
+}
+
+// BM25 over several weighted fields, built once per document set
+class FieldIndex<T> {
+  private documents: Array<IndexedDocument<T>> = [];
+  private documentFrequency: Map<string, number> = new Map();
+  private averageLengths: Record<string, number> = {};
+
+  constructor(items: Array<{ item: T; fields: Record<string, FieldValue> }>, private boosts: Record<string, number>) {
+    const totals: Record<string, number> = {};
+
+    for (const { item, fields } of items) {
+      const terms: Record<string, Map<string, number>> = {};
+      const lengths: Record<string, number> = {};
+      const seen = new Set<string>();
+
+      for (const [field, value] of Object.entries(fields)) {
+        const tokens = tokenize(fieldText(value));
+        const counts = new Map<string, number>();
+        for (const token of tokens) {
+          counts.set(token, (counts.get(token) || 0) + 1);
+          seen.add(token);
+        }
+        terms[field] = counts;
+        lengths[field] = tokens.length;
+        totals[field] = (totals[field] || 0) + tokens.length;
+      }
+      for (const token of seen) {
+        this.documentFrequency.set(token, (this.documentFrequency.get(token) || 0) + 1);
+      }
+      this.documents.push({ item, fields, terms, lengths });
+    }
+
+    for (const [field, total] of Object.entries(totals)) {
+      this.averageLengths[field] = total / Math.max(1, this.documents.length);
+    }
+  }
+
+  search(query: string): Array<{ item: T; score: number; highlights: Record<string, string | string[]> }> {
+    const queryTokens = Array.from(new Set(tokenize(query)));
+    if (queryTokens.length === 0) {
+      return [];
+    }
+
+    // Each query word expands to the index terms it matches, with their weights
+    const vocabulary = Array.from(this.documentFrequency.keys());
+    const expansions = queryTokens.map(token => {
+      const weights = new Map<string, number>();
+      if (this.documentFrequency.has(token)) {
+        weights.set(token, 1);
+      }
+      if (token.length >= MIN_PREFIX_LENGTH) {
+        for (const term of vocabulary) {
+          if (term !== token && term.startsWith(token)) {
+            weights.set(term, PREFIX_WEIGHT);
+          }
+        }
+      }
+      return weights;
+    });
+
+    const total = this.documents.length;
+    const results = [];
+    for (const document of this.documents) {
+      let score = 0;
+      const matchedByField = new Map<string, Set<string>>();
+
+      for (const weights of expansions) {
+        for (const [term, weight] of weights) {
+          const frequency = this.documentFrequency.get(term) || 0;
+          const idf = Math.log(1 + (total - frequency + 0.5) / (frequency + 0.5));
+
+          for (const [field, counts] of Object.entries(document.terms)) {
+            const tf = counts.get(term);
+            if (!tf) {
+              continue;
+            }
+            const lengthRatio = document.lengths[field] / (this.averageLengths[field] || 1);
+            score += weight * (this.boosts[field] || 1) * idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * lengthRatio));
+            const matched = matchedByField.get(field) || new Set<string>();
+            matched.add(term);
+            matchedByField.set(field, matched);
+          }
+        }
+      }
+
+      if (score > 0) {
+        const highlights: Record<string, string | string[]> = {};
+        for (const [field, matched] of matchedByField) {
+          const value = document.fields[field];
+          highlights[field] = Array.isArray(value)
+            ? value.filter(entry => tokenize(entry).some(token => matched.has(token)))
+            : highlight(value, matched);
+        }
+        results.push({ item: document.item, score: Math.round(score * 1000) / 1000, highlights });
+      }
+    }
+
+    return results.sort((left, right) => right.score - left.score);
+  }
+}
+
+// Property names anywhere in a schema, following $refs and composition a few levels down
+function propertyNames(schema: any, expander: SchemaExpander, names: Set<string>, seen: Set<string>, depth: number): Set<string> {
+  if (!schema || typeof schema !== 'object' || depth > MAX_PROPERTY_DEPTH) {
+    return names;
+  }
+  if (typeof schema.$ref === 'string') {
+    if (!seen.has(schema.$ref)) {
+      seen.add(schema.$ref);
+      propertyNames(expander.resolveRef(schema.$ref), expander, names, seen, depth);
+    }
+    return names;
+  }
+  for (const [name, property] of Object.entries<any>(schema.properties || {})) {
+    names.add(name);
+    propertyNames(property, expander, names, seen, depth + 1);
+  }
+  for (const keyword of ['allOf', 'oneOf', 'anyOf']) {
+    for (const member of schema[keyword] || []) {
+      propertyNames(member, expander, names, seen, depth);
+    }
+  }
+  propertyNames(schema.items, expander, names, seen, depth);
+  if (typeof schema.additionalProperties === 'object') {
+    propertyNames(schema.additionalProperties, expander, names, seen, depth + 1);
+  }
+  return names;
+}
+
+function propertyCollector(doc: SwaggerDoc): (schema: any) => string[] {
+  const expander = new SchemaExpander(doc, { mode: 'none', maxDepth: 0 });
+  return schema => Array.from(propertyNames(schema, expander, new Set(), new Set(), 0));
+}
+
+// One index over every spec searched together, so document frequencies and scores share a scale
+export class SearchIndex {
+  private endpointIndex: FieldIndex<{ spec: string; endpoint: EndpointInfo }>;
+  private schemaIndex: FieldIndex<{ spec: string; name: string }>;
+
+  constructor(specs: SearchableSpec[]) {
+    this.endpointIndex = new FieldIndex(specs.flatMap(({ name: spec, doc, endpoints }) => {
+      const collect = propertyCollector(doc);
+      return endpoints.map(endpoint => {
+        const bodySchemas = [
+          getRequestBodySchema(doc, endpoint)?.schema,
+          ...getResponseSchemas(doc, endpoint).map(response => response.schema),
+        ];
+        return {
+          item: { spec, endpoint },
+          fields: {
+            operationId: endpoint.operationId || '',
+            summary: endpoint.summary || '',
+            path: `${endpoint.method} ${endpoint.path}`,
+            tags: endpoint.tags || [],
+            parameters: resolveParameters(doc, endpoint)
+              .filter(parameter => parameter.in !== 'body' && parameter.in !== 'formData')
+              .map(parameter => parameter.name),
+            properties: Array.from(new Set(bodySchemas.flatMap(collect))),
+            description: endpoint.description || '',
+          },
+        };
+      });
+    }), ENDPOINT_BOOSTS);
+
+    this.schemaIndex = new FieldIndex(specs.flatMap(({ name: spec, doc, schemas }) => {
+      const collect = propertyCollector(doc);
+      return Object.entries(schemas).map(([name, schema]) => ({
+        item: { spec, name },
+        fields: {
+          name,
+          title: schema?.title || '',
+          properties: collect(schema),
+          description: schema?.description || '',
+        },
+      }));
+    }), SCHEMA_BOOSTS);
+  }
+
+  searchEndpoints(query: string): EndpointHit[] {
+    return this.endpointIndex.search(query).map(({ item, score, highlights }) => ({ ...item, score, highlights }));
+  }
+
+  searchSchemas(query: string): SchemaHit[] {
+    return this.schemaIndex.search(query).map(({ item, score, highlights }) => ({ ...item, score, highlights }));
+  }
+}
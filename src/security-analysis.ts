@@ -0,0 +1,207 @@
+import { AuthManager } from './auth.js';
+import { AuthSettings, Config } from './config.js';
+import { findDefiningSource, resolveServerUrl } from './server-url.js';
+import { EndpointInfo } from './swagger-fetcher.js';
+import { LoadedSpec } from './workspace.js';
+
+export type SecurityRequirement = Record<string, string[]>;
+
+export interface SchemeDescription {
+  name: string;
+  type: string;
+  description?: string;
+  scheme?: string;
+  bearerFormat?: string;
+  in?: string;
+  parameterName?: string;
+  flows?: Record<string, { authorizationUrl?: string; tokenUrl?: string; refreshUrl?: string; scopes: string[] }>;
+  openIdConnectUrl?: string;
+  operations: number; // Operations that accept this scheme
+  satisfiedByConfig: boolean;
+}
+
+// One way to authenticate: every scheme in it must be satisfied together
+export interface RequirementAlternative {
+  schemes: Array<{ name: string; type?: string; scopes: string[] }>;
+}
+
+export interface OperationSecurity {
+  declared: boolean; // False when neither the operation nor the document declares security
+  required: boolean; // False when the operation can be called anonymously
+  alternatives: RequirementAlternative[];
+  scopes: string[];
+}
+
+export interface SecurityCheck {
+  method: string;
+  path: string;
+  operationId?: string;
+  security: OperationSecurity;
+  auth: string; // Configured auth type used for the operation
+  satisfied: boolean;
+  reasons: string[]; // Why each alternative is not satisfied
+}
+
+// Does the configured auth send what a single scheme asks for?
+function schemeProblem(scheme: any, scopes: string[], auth: AuthSettings): string | null {
+  const credentials = auth.credentials;
+  const oauth2 = auth.type === 'oauth2ClientCredentials' || auth.type === 'oauth2Password';
+  const sendsHeader = (name: string) => Object.keys(auth.headers || {}).some(header => header.toLowerCase() === name.toLowerCase());
+
+  switch (scheme?.type) {
+    case 'http': {
+      const kind = String(scheme.scheme || '').toLowerCase();
+      if (kind === 'basic') {
+        return auth.type === 'basic' ? null : `needs HTTP basic auth, configured auth is ${auth.type}`;
+      }
+      if (kind === 'bearer') {
+        return auth.type === 'bearer' || oauth2 ? null : `needs a bearer token, configured auth is ${auth.type}`;
+      }
+      return sendsHeader('Authorization') ? null : `needs HTTP ${kind || 'unknown'} auth, which is not supported`;
+    }
+
+    case 'apiKey': {
+      const location = scheme.in || 'header';
+      if (location === 'header' && sendsHeader(scheme.name)) {
+        return null;
+      }
+      if (auth.type !== 'apiKey') {
+        return `needs an API key in ${location} '${scheme.name}', configured auth is ${auth.type}`;
+      }
+      const configuredIn = credentials?.apiKeyIn || 'header';
+      const configuredName = configuredIn === 'header' ? credentials?.apiKeyHeader || 'X-API-Key' : credentials?.apiKeyName || 'api_key';
+      if (configuredIn !== location || configuredName.toLowerCase() !== String(scheme.name).toLowerCase()) {
+        return `needs an API key in ${location} '${scheme.name}', configured key goes in ${configuredIn} '${configuredName}'`;
+      }
+      return null;
+    }
+
+    case 'oauth2':
+    case 'openIdConnect': {
+      if (auth.type === 'bearer') {
+        // A pasted token may carry any scopes, so it is given the benefit of the doubt
+        return null;
+      }
+      if (!oauth2) {
+        return `needs an OAuth2 token, configured auth is ${auth.type}`;
+      }
+      if (scheme.type === 'oauth2') {
+        const flow = auth.type === 'oauth2Password' ? 'password' : 'clientCredentials';
+        if (scheme.flows && !scheme.flows[flow]) {
+          return `needs one of the OAuth2 flows ${Object.keys(scheme.flows).join(', ')}, configured grant is ${flow}`;
+        }
+      }
+      const granted = new Set(credentials?.scopes || []);
+      const missing = scopes.filter(scope => !granted.has(scope));
+      return missing.length > 0 ? `needs OAuth2 scopes not in OAUTH_SCOPES: ${missing.join(', ')}` : null;
+    }
+
+    case 'mutualTLS':
+      return 'needs mutual TLS, which is not supported';
+
+    default:
+      return 'is not defined in components.securitySchemes';
+  }
+}
+
+export class SecurityAnalyzer {
+  private authManager: AuthManager;
+
+  constructor(private config: Config) {
+    this.authManager = new AuthManager(config);
+  }
+
+  // Resolved requirements: the operation's own security, else the document's; an empty list means anonymous
+  forOperation(spec: LoadedSpec, endpoint: EndpointInfo): OperationSecurity {
+    const schemes = spec.doc.components?.securitySchemes || {};
+    const requirements: SecurityRequirement[] | undefined = endpoint.security;
+    const alternatives = (requirements || []).map(requirement => ({
+      schemes: Object.entries(requirement).map(([name, scopes]) => ({
+        name,
+        ...(schemes[name]?.type ? { type: schemes[name].type } : {}),
+        scopes: scopes || [],
+      })),
+    }));
+    return {
+      declared: requirements !== undefined,
+      required: alternatives.length > 0 && alternatives.every(alternative => alternative.schemes.length > 0),
+      alternatives,
+      scopes: Array.from(new Set(alternatives.flatMap(alternative => alternative.schemes.flatMap(scheme => scheme.scopes)))),
+    };
+  }
+
+  check(spec: LoadedSpec, endpoint: EndpointInfo): SecurityCheck {
+    const security = this.forOperation(spec, endpoint);
+    const auth = this.authFor(spec, endpoint);
+    const schemes = spec.doc.components?.securitySchemes || {};
+
+    const reasons: string[] = [];
+    let satisfied = !security.required;
+    for (const alternative of security.required ? security.alternatives : []) {
+      const problems = alternative.schemes
+        .map(({ name, scopes }) => {
+          const problem = schemeProblem(schemes[name], scopes, auth);
+          return problem ? `${name} ${problem}` : null;
+        })
+        .filter((problem): problem is string => problem !== null);
+      // One configured auth can only stand in for several schemes at once if they all accept it
+      if (problems.length === 0) {
+        satisfied = true;
+        break;
+      }
+      reasons.push(problems.join('; '));
+    }
+
+    return {
+      method: endpoint.method,
+      path: endpoint.path,
+      ...(endpoint.operationId ? { operationId: endpoint.operationId } : {}),
+      security,
+      auth: auth.type,
+      satisfied,
+      reasons: satisfied ? [] : reasons,
+    };
+  }
+
+  describeSchemes(spec: LoadedSpec, endpoints: EndpointInfo[]): SchemeDescription[] {
+    const usage = new Map<string, number>();
+    for (const endpoint of endpoints) {
+      const names = new Set((endpoint.security || []).flatMap(requirement => Object.keys(requirement)));
+      for (const name of names) {
+        usage.set(name, (usage.get(name) || 0) + 1);
+      }
+    }
+
+    return Object.entries<any>(spec.doc.components?.securitySchemes || {}).map(([name, scheme]) => ({
+      name,
+      type: scheme.type,
+      ...(scheme.description ? { description: scheme.description } : {}),
+      ...(scheme.scheme ? { scheme: scheme.scheme } : {}),
+      ...(scheme.bearerFormat ? { bearerFormat: scheme.bearerFormat } : {}),
+      ...(scheme.type === 'apiKey' ? { in: scheme.in, parameterName: scheme.name } : {}),
+      ...(scheme.flows ? {
+        flows: Object.fromEntries(Object.entries<any>(scheme.flows).map(([flow, settings]) => [flow, {
+          ...(settings.authorizationUrl ? { authorizationUrl: settings.authorizationUrl } : {}),
+          ...(settings.tokenUrl ? { tokenUrl: settings.tokenUrl } : {}),
+          ...(settings.refreshUrl ? { refreshUrl: settings.refreshUrl } : {}),
+          scopes: Object.keys(settings.scopes || {}),
+        }])),
+      } : {}),
+      ...(scheme.openIdConnectUrl ? { openIdConnectUrl: scheme.openIdConnectUrl } : {}),
+      operations: usage.get(name) || 0,
+      // Scopes are checked per operation, so this only asks whether the scheme type matches
+      satisfiedByConfig: schemeProblem(scheme, [], this.config.auth) === null,
+    }));
+  }
+
+  // Auth rules can depend on the operation's host and source, like call_endpoint
+  private authFor(spec: LoadedSpec, endpoint: EndpointInfo): AuthSettings {
+    let url: string | undefined;
+    try {
+      url = resolveServerUrl(spec, endpoint);
+    } catch {
+      url = undefined;
+    }
+    return this.authManager.resolveAuth(url, findDefiningSource(spec, endpoint));
+  }
+}
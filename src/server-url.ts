@@ -0,0 +1,98 @@
+import { CombinedSwaggerDoc, EndpointInfo } from './swagger-fetcher.js';
+import { LoadedSpec } from './workspace.js';
+
+// Combined docs drop servers/host, so look for the source that defines the operation
+function findDefiningDoc(spec: LoadedSpec, endpoint: EndpointInfo): CombinedSwaggerDoc {
+  const owner = endpoint.source ? spec.sourceDocs.get(endpoint.source) : undefined;
+  if (owner) {
+    return owner;
+  }
+  for (const sourceDoc of spec.sourceDocs.values()) {
+    if (sourceDoc.paths?.[endpoint.path]?.[endpoint.method.toLowerCase()]) {
+      return sourceDoc;
+    }
+  }
+  return spec.doc;
+}
+
+// Name of the swagger-config source an operation comes from, if the spec has sources
+export function findDefiningSource(spec: LoadedSpec, endpoint: EndpointInfo): string | undefined {
+  return findDefiningDoc(spec, endpoint).source;
+}
+
+// Patterns are exact hosts or "*.example.com" wildcards
+export function matchesHost(host: string, pattern: string): boolean {
+  const normalizedPattern = pattern.toLowerCase();
+  if (normalizedPattern.startsWith('*.')) {
+    return host.endsWith(normalizedPattern.substring(1));
+  }
+  return host === normalizedPattern;
+}
+
+function isHttpUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+function applyServerVariables(server: { url: string; variables?: Record<string, { default: string }> }): string {
+  let url = server.url;
+  for (const [name, variable] of Object.entries(server.variables || {})) {
+    url = url.replace(new RegExp(`\\{${name}\\}`, 'g'), variable.default);
+  }
+  return url;
+}
+
+export function resolveServerUrl(spec: LoadedSpec, endpoint: EndpointInfo): string {
+  const doc = findDefiningDoc(spec, endpoint);
+  const pathItem = doc.paths?.[endpoint.path] || {};
+  const operation = pathItem[endpoint.method.toLowerCase()] || {};
+  const servers = operation.servers || pathItem.servers || doc.servers;
+
+  if (servers && servers.length > 0) {
+    const url = applyServerVariables(servers[0]);
+
+    if (isHttpUrl(url)) {
+      return url.replace(/\/+$/, '');
+    }
+    // Relative server URLs are relative to where the spec was served from
+    if (isHttpUrl(spec.location)) {
+      return new URL(url, spec.location).toString().replace(/\/+$/, '');
+    }
+    throw new Error(`Server URL '${url}' is relative and the spec was not loaded over HTTP. Please provide a baseUrl.`);
+  }
+
+  if (doc.host) {
+    const scheme = doc.schemes?.includes('https') ? 'https' : doc.schemes?.[0] || 'https';
+    return `${scheme}://${doc.host}${doc.basePath || ''}`.replace(/\/+$/, '');
+  }
+
+  if (isHttpUrl(spec.location)) {
+    const origin = new URL(spec.location).origin;
+    return `${origin}${doc.basePath || ''}`.replace(/\/+$/, '');
+  }
+
+  throw new Error('Unable to determine the server URL from the spec. Please provide a baseUrl.');
+}
+
+// Hosts the spec itself declares, used as the default call allowlist
+export function declaredHosts(spec: LoadedSpec): string[] {
+  const docs = [spec.doc, ...spec.sourceDocs.values()];
+  const hosts = new Set<string>();
+
+  for (const doc of docs) {
+    for (const server of doc.servers || []) {
+      try {
+        hosts.add(new URL(applyServerVariables(server), isHttpUrl(spec.location) ? spec.location : undefined).host);
+      } catch {
+        // Templated or relative server URLs without a base are skipped
+      }
+    }
+    if (doc.host) {
+      hosts.add(doc.host);
+    }
+  }
+  if (isHttpUrl(spec.location)) {
+    hosts.add(new URL(spec.location).host);
+  }
+
+  return Array.from(hosts);
+}
@@ -0,0 +1,510 @@
+import { AuthManager } from './auth.js';
+import { Config } from './config.js';
+import { ExampleGenerator } from './example-generator.js';
+import { getRequestBodySchema, resolveParameters } from './operation-schemas.js';
+import { SchemaExpander } from './schema-expander.js';
+import { findDefiningSource, resolveServerUrl } from './server-url.js';
+import { EndpointInfo } from './swagger-fetcher.js';
+import { LoadedSpec } from './workspace.js';
+
+export type SnippetLanguage = 'curl' | 'fetch' | 'axios' | 'python' | 'httpie';
+
+export const SNIPPET_LANGUAGES: SnippetLanguage[] = ['curl', 'fetch', 'axios', 'python', 'httpie'];
+
+export interface SnippetOptions {
+  languages: SnippetLanguage[];
+  baseUrl?: string;
+  includeOptional: boolean;
+}
+
+export interface GeneratedSnippets {
+  url: string;
+  snippets: Partial<Record<SnippetLanguage, string>>;
+  environment: string[]; // Variables the snippets read credentials from
+  warnings: string[];
+}
+
+// Secrets never appear in snippets; they are read from environment variables named like the server's own settings
+type Value = { literal: string } | { env: string; prefix?: string };
+
+type BodyKind = 'json' | 'form' | 'multipart' | 'text';
+
+interface FormField {
+  name: string;
+  value: string;
+  file?: boolean;
+}
+
+interface SnippetRequest {
+  method: string;
+  url: string;
+  query: Array<{ name: string; value: Value }>;
+  headers: Array<{ name: string; value: Value }>;
+  basicAuth: boolean;
+  body?: { kind: BodyKind; contentType: string; value: any; fields: FormField[] };
+  comments: string[];
+}
+
+const FALLBACK_BASE_URL = 'https://api.example.com';
+
+function literal(value: unknown): Value {
+  return { literal: typeof value === 'string' ? value : JSON.stringify(value) };
+}
+
+function bodyKind(contentType: string): BodyKind {
+  if (/json/i.test(contentType)) {
+    return 'json';
+  }
+  if (/x-www-form-urlencoded/i.test(contentType)) {
+    return 'form';
+  }
+  if (/multipart\/form-data/i.test(contentType)) {
+    return 'multipart';
+  }
+  return 'text';
+}
+
+function envName(headerName: string): string {
+  return headerName.toUpperCase().replace(/[^A-Z0-9]+/g, '_');
+}
+
+function indent(text: string, prefix: string): string {
+  return text.split('\n').map((line, index) => index === 0 ? line : `${prefix}${line}`).join('\n');
+}
+
+// Shell words are single-quoted unless they read a variable
+function shellWord(parts: Array<string | Value>): string {
+  const values = parts.map(part => typeof part === 'string' ? { literal: part } as Value : part);
+  if (values.every(value => 'literal' in value)) {
+    const text = values.map(value => (value as { literal: string }).literal).join('');
+    return `'${text.replace(/'/g, `'\\''`)}'`;
+  }
+  return `"${values.map(value => 'literal' in value
+    ? value.literal.replace(/(["\\$`])/g, '\\$1')
+    : `${(value.prefix || '').replace(/(["\\$`])/g, '\\$1')}\${${value.env}}`
+  ).join('')}"`;
+}
+
+function jsValue(value: Value): string {
+  if ('literal' in value) {
+    return JSON.stringify(value.literal);
+  }
+  return value.prefix ? `\`${value.prefix.replace(/([`\\$])/g, '\\$1')}\${process.env.${value.env}}\`` : `process.env.${value.env}`;
+}
+
+function pythonValue(value: Value): string {
+  if ('literal' in value) {
+    return JSON.stringify(value.literal);
+  }
+  if (!value.prefix) {
+    return `os.environ["${value.env}"]`;
+  }
+  // Inside an f-string, braces are doubled on top of the usual string escapes
+  const prefix = JSON.stringify(value.prefix).slice(1, -1).replace(/[{}]/g, '$&$&');
+  return `f"${prefix}{os.environ['${value.env}']}"`;
+}
+
+// JSON with Python's spellings of true, false and null
+function pythonLiteral(value: any, level = 0): string {
+  const pad = '    '.repeat(level + 1);
+  const closing = '    '.repeat(level);
+  if (value === null || value === undefined) {
+    return 'None';
+  }
+  if (value === true) {
+    return 'True';
+  }
+  if (value === false) {
+    return 'False';
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return '[]';
+    }
+    return `[\n${value.map(item => `${pad}${pythonLiteral(item, level + 1)},`).join('\n')}\n${closing}]`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) {
+      return '{}';
+    }
+    return `{\n${entries.map(([key, item]) => `${pad}${JSON.stringify(key)}: ${pythonLiteral(item, level + 1)},`).join('\n')}\n${closing}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function queryString(query: Array<{ name: string; value: Value }>): Array<string | Value> {
+  const parts: Array<string | Value> = [];
+  query.forEach(({ name, value }, index) => {
+    parts.push(`${index === 0 ? '?' : '&'}${encodeURIComponent(name)}=`);
+    parts.push('literal' in value ? encodeURIComponent(value.literal) : value);
+  });
+  return parts;
+}
+
+// A URL for curl --expand-url: {{NAME:url}} reads the variable URL-encoded, and a literal "{{" is escaped
+function curlExpandedUrl(parts: Array<string | Value>): string {
+  return parts.map(part => {
+    if (typeof part === 'string' || 'literal' in part) {
+      return (typeof part === 'string' ? part : part.literal).replace(/\{\{/g, '\\{{');
+    }
+    return `${encodeURIComponent(part.prefix || '')}{{${part.env}:url}}`;
+  }).join('');
+}
+
+export class SnippetGenerator {
+  private authManager: AuthManager;
+
+  constructor(private config: Config) {
+    this.authManager = new AuthManager(config);
+  }
+
+  generate(spec: LoadedSpec, endpoint: EndpointInfo, options: SnippetOptions): GeneratedSnippets {
+    const warnings: string[] = [];
+    const request = this.buildRequest(spec, endpoint, options, warnings);
+
+    const renderers: Record<SnippetLanguage, (request: SnippetRequest) => string> = {
+      curl: request => this.curl(request),
+      fetch: request => this.fetch(request),
+      axios: request => this.axios(request),
+      python: request => this.python(request),
+      httpie: request => this.httpie(request),
+    };
+
+    const environment = new Set<string>();
+    for (const { value } of [...request.query, ...request.headers]) {
+      if ('env' in value) {
+        environment.add(value.env);
+      }
+    }
+    if (request.basicAuth) {
+      environment.add('AUTH_USERNAME');
+      environment.add('AUTH_PASSWORD');
+    }
+
+    return {
+      url: request.url,
+      snippets: Object.fromEntries(options.languages.map(language => [language, renderers[language](request)])),
+      environment: Array.from(environment),
+      warnings,
+    };
+  }
+
+  private buildRequest(spec: LoadedSpec, endpoint: EndpointInfo, options: SnippetOptions, warnings: string[]): SnippetRequest {
+    let baseUrl = options.baseUrl;
+    if (!baseUrl) {
+      try {
+        baseUrl = resolveServerUrl(spec, endpoint);
+      } catch (error) {
+        warnings.push(`${error instanceof Error ? error.message : error} Using ${FALLBACK_BASE_URL} instead.`);
+        baseUrl = FALLBACK_BASE_URL;
+      }
+    }
+
+    const examples = new ExampleGenerator(spec.doc, { seed: 1, includeOptional: options.includeOptional })
+      .forOperation(endpoint);
+    const parameters = resolveParameters(spec.doc, endpoint);
+    const wanted = (location: string, name: string) => options.includeOptional || location === 'path'
+      || parameters.some(parameter => parameter.in === location && parameter.name === name && parameter.required);
+
+    let path = endpoint.path;
+    for (const [name, value] of Object.entries(examples.parameters.path || {})) {
+      path = path.replace(`{${name}}`, encodeURIComponent(String(value)));
+    }
+
+    const query: SnippetRequest['query'] = [];
+    for (const [name, value] of Object.entries(examples.parameters.query || {})) {
+      if (wanted('query', name)) {
+        for (const item of Array.isArray(value) ? value : [value]) {
+          query.push({ name, value: literal(item) });
+        }
+      }
+    }
+    const headers: SnippetRequest['headers'] = [];
+    for (const [name, value] of Object.entries(examples.parameters.header || {})) {
+      if (wanted('header', name)) {
+        headers.push({ name, value: literal(value) });
+      }
+    }
+
+    const request: SnippetRequest = {
+      method: endpoint.method,
+      url: `${baseUrl.replace(/\/+$/, '')}${path}`,
+      query,
+      headers,
+      basicAuth: false,
+      comments: [],
+    };
+
+    if (examples.request) {
+      const kind = bodyKind(examples.request.contentType);
+      const value = examples.request.example;
+      const fields = (kind === 'form' || kind === 'multipart') && value && typeof value === 'object'
+        ? this.formFields(spec, endpoint, examples.request.contentType, value)
+        : [];
+      request.body = { kind, contentType: examples.request.contentType, value, fields };
+      // multipart boundaries are set by each client
+      if (kind !== 'multipart') {
+        headers.push({ name: 'Content-Type', value: literal(examples.request.contentType) });
+      }
+    }
+
+    this.applyAuth(request, findDefiningSource(spec, endpoint));
+    return request;
+  }
+
+  // Binary properties become file uploads pointing at a placeholder path
+  private formFields(spec: LoadedSpec, endpoint: EndpointInfo, contentType: string, value: Record<string, any>): FormField[] {
+    let schema = getRequestBodySchema(spec.doc, endpoint, contentType)?.schema;
+    if (typeof schema?.$ref === 'string') {
+      schema = new SchemaExpander(spec.doc, { mode: 'none', maxDepth: 0 }).resolveRef(schema.$ref);
+    }
+    return Object.entries(value).map(([name, field]) => {
+      const format = schema?.properties?.[name]?.format;
+      return format === 'binary' || format === 'base64'
+        ? { name, value: `path/to/${name}`, file: true }
+        : { name, value: typeof field === 'string' ? field : JSON.stringify(field) };
+    });
+  }
+
+  // Mirrors AuthManager.applyAuth, with environment variables in place of the configured secrets
+  private applyAuth(request: SnippetRequest, source?: string): void {
+    const auth = this.authManager.resolveAuth(request.url, source);
+    const credentials = auth?.credentials;
+
+    for (const name of Object.keys(auth?.headers || {})) {
+      request.headers.push({ name, value: { env: envName(name) } });
+    }
+
+    switch (auth?.type) {
+      case 'basic':
+        request.basicAuth = true;
+        break;
+
+      case 'bearer':
+        request.headers.push({ name: 'Authorization', value: { env: 'AUTH_TOKEN', prefix: 'Bearer ' } });
+        break;
+
+      case 'apiKey':
+        if (credentials?.apiKeyIn === 'query') {
+          request.query.push({ name: credentials.apiKeyName, value: { env: 'API_KEY' } });
+        } else if (credentials?.apiKeyIn === 'cookie') {
+          request.headers.push({ name: 'Cookie', value: { env: 'API_KEY', prefix: `${credentials.apiKeyName}=` } });
+        } else {
+          request.headers.push({ name: credentials?.apiKeyHeader || 'X-API-Key', value: { env: 'API_KEY' } });
+        }
+        break;
+
+      case 'oauth2ClientCredentials':
+      case 'oauth2Password':
+        request.headers.push({ name: 'Authorization', value: { env: 'ACCESS_TOKEN', prefix: 'Bearer ' } });
+        request.comments.push(`ACCESS_TOKEN is an OAuth2 access token${credentials?.tokenUrl ? ` from ${credentials.tokenUrl}` : ''}`);
+        break;
+    }
+  }
+
+  private curl(request: SnippetRequest): string {
+    const method = request.method === 'GET' ? '' : `-X ${request.method} `;
+    const urlParts = [request.url, ...queryString(request.query)];
+    // Query values from the environment are imported as curl variables (curl 8.3+) so curl URL-encodes them
+    const variables = Array.from(new Set(request.query.flatMap(({ value }) => 'env' in value ? [value.env] : [])));
+    const url = variables.length > 0
+      ? `${variables.map(name => `--variable %${name} `).join('')}--expand-url ${shellWord([curlExpandedUrl(urlParts)])}`
+      : shellWord(urlParts);
+    const lines = [`curl ${method}${url}`];
+    for (const { name, value } of request.headers) {
+      lines.push(`-H ${shellWord([`${name}: `, value])}`);
+    }
+    if (request.basicAuth) {
+      lines.push(`-u "\${AUTH_USERNAME}:\${AUTH_PASSWORD}"`);
+    }
+
+    const body = request.body;
+    if (body?.kind === 'form') {
+      lines.push(...body.fields.map(field => `--data-urlencode ${shellWord([`${field.name}=${field.value}`])}`));
+    } else if (body?.kind === 'multipart') {
+      lines.push(...body.fields.map(field => `-F ${shellWord([`${field.name}=${field.file ? '@' : ''}${field.value}`])}`));
+    } else if (body) {
+      lines.push(`--data ${shellWord([body.kind === 'json' ? JSON.stringify(body.value, null, 2) : String(body.value)])}`);
+    }
+
+    return this.withComments('#', lines.join(' \\\n  '), request);
+  }
+
+  private httpie(request: SnippetRequest): string {
+    const body = request.body;
+    const flags = body?.kind === 'form' ? '--form ' : body?.kind === 'multipart' ? '--multipart ' : '';
+    const lines = [`http ${flags}${request.method} ${shellWord([request.url])}`];
+
+    for (const { name, value } of request.query) {
+      lines.push(shellWord([`${name}==`, value]));
+    }
+    // Content-Type follows from the body flags, so only other headers are passed
+    for (const { name, value } of request.headers) {
+      if (name !== 'Content-Type' || body?.kind === 'text') {
+        lines.push(shellWord([`${name}:`, value]));
+      }
+    }
+    if (request.basicAuth) {
+      lines.push(`-a "\${AUTH_USERNAME}:\${AUTH_PASSWORD}"`);
+    }
+    if (body?.kind === 'form' || body?.kind === 'multipart') {
+      lines.push(...body.fields.map(field => shellWord([`${field.name}${field.file ? '@' : '='}${field.value}`])));
+    }
+
+    let command = lines.join(' \\\n  ');
+    if (body?.kind === 'json' || body?.kind === 'text') {
+      const text = body.kind === 'json' ? JSON.stringify(body.value, null, 2) : String(body.value);
+      command = `echo ${shellWord([text])} | ${command}`;
+    }
+    return this.withComments('#', command, request);
+  }
+
+  private fetch(request: SnippetRequest): string {
+    const lines: string[] = [];
+    const options: string[] = [`  method: '${request.method}',`];
+
+    if (request.headers.length > 0 || request.basicAuth) {
+      const headers = request.headers.map(({ name, value }) => `    ${JSON.stringify(name)}: ${jsValue(value)},`);
+      if (request.basicAuth) {
+        headers.push('    "Authorization": `Basic ${btoa(`${process.env.AUTH_USERNAME}:${process.env.AUTH_PASSWORD}`)}`,');
+      }
+      options.push(`  headers: {\n${headers.join('\n')}\n  },`);
+    }
+
+    const body = request.body;
+    if (body?.kind === 'json') {
+      options.push(`  body: JSON.stringify(${indent(JSON.stringify(body.value, null, 2), '  ')}),`);
+    } else if (body?.kind === 'form') {
+      options.push(`  body: new URLSearchParams(${indent(JSON.stringify(Object.fromEntries(body.fields.map(field => [field.name, field.value])), null, 2), '  ')}),`);
+    } else if (body?.kind === 'multipart') {
+      lines.push(...this.jsFormData(body.fields), '');
+      options.push('  body: form,');
+    } else if (body) {
+      options.push(`  body: ${JSON.stringify(String(body.value))},`);
+    }
+
+    lines.push(
+      `const response = await fetch(${this.jsUrl(request)}, {`,
+      ...options,
+      '});',
+      'console.log(response.status, await response.text());',
+    );
+    return this.withComments('//', lines.join('\n'), request);
+  }
+
+  private axios(request: SnippetRequest): string {
+    const lines = ["import axios from 'axios';", ''];
+    const options: string[] = [
+      `  method: '${request.method.toLowerCase()}',`,
+      `  url: ${JSON.stringify(request.url)},`,
+    ];
+
+    if (request.query.length > 0) {
+      const params = new Map<string, string[]>();
+      for (const { name, value } of request.query) {
+        params.set(name, [...(params.get(name) || []), jsValue(value)]);
+      }
+      const entries = Array.from(params.entries()).map(([name, values]) =>
+        `    ${JSON.stringify(name)}: ${values.length === 1 ? values[0] : `[${values.join(', ')}]`},`
+      );
+      options.push(`  params: {\n${entries.join('\n')}\n  },`);
+    }
+    if (request.headers.length > 0) {
+      options.push(`  headers: {\n${request.headers.map(({ name, value }) => `    ${JSON.stringify(name)}: ${jsValue(value)},`).join('\n')}\n  },`);
+    }
+    if (request.basicAuth) {
+      options.push('  auth: { username: process.env.AUTH_USERNAME, password: process.env.AUTH_PASSWORD },');
+    }
+
+    const body = request.body;
+    if (body?.kind === 'json') {
+      options.push(`  data: ${indent(JSON.stringify(body.value, null, 2), '  ')},`);
+    } else if (body?.kind === 'form') {
+      options.push(`  data: new URLSearchParams(${indent(JSON.stringify(Object.fromEntries(body.fields.map(field => [field.name, field.value])), null, 2), '  ')}),`);
+    } else if (body?.kind === 'multipart') {
+      lines.push(...this.jsFormData(body.fields), '');
+      options.push('  data: form,');
+    } else if (body) {
+      options.push(`  data: ${JSON.stringify(String(body.value))},`);
+    }
+
+    lines.push(
+      'const response = await axios.request({',
+      ...options,
+      '  // Report every status instead of throwing',
+      '  validateStatus: () => true,',
+      '});',
+      'console.log(response.status, response.data);',
+    );
+    return this.withComments('//', lines.join('\n'), request);
+  }
+
+  private python(request: SnippetRequest): string {
+    const usesEnv = request.basicAuth || [...request.query, ...request.headers].some(({ value }) => 'env' in value);
+    const lines = [...(usesEnv ? ['import os', ''] : []), 'import requests', ''];
+    const args: string[] = [`    ${JSON.stringify(request.url)},`];
+
+    if (request.query.length > 0) {
+      const params = request.query.map(({ name, value }) => `(${JSON.stringify(name)}, ${pythonValue(value)})`);
+      args.push(`    params=[${params.join(', ')}],`);
+    }
+    // requests sets Content-Type itself for json=, data= and files=
+    const headers = request.headers.filter(({ name }) => name !== 'Content-Type' || request.body?.kind === 'text');
+    if (headers.length > 0) {
+      args.push(`    headers={\n${headers.map(({ name, value }) => `        ${JSON.stringify(name)}: ${pythonValue(value)},`).join('\n')}\n    },`);
+    }
+    if (request.basicAuth) {
+      args.push(`    auth=(os.environ["AUTH_USERNAME"], os.environ["AUTH_PASSWORD"]),`);
+    }
+
+    const body = request.body;
+    if (body?.kind === 'json') {
+      args.push(`    json=${pythonLiteral(body.value, 1)},`);
+    } else if (body?.kind === 'form' || body?.kind === 'multipart') {
+      const data = body.fields.filter(field => !field.file);
+      const files = body.fields.filter(field => field.file);
+      if (data.length > 0) {
+        args.push(`    data=${pythonLiteral(Object.fromEntries(data.map(field => [field.name, field.value])), 1)},`);
+      }
+      if (files.length > 0) {
+        args.push(`    files={${files.map(field => `${JSON.stringify(field.name)}: open(${JSON.stringify(field.value)}, "rb")`).join(', ')}},`);
+      }
+    } else if (body) {
+      args.push(`    data=${JSON.stringify(String(body.value))},`);
+    }
+
+    lines.push(
+      `response = requests.${request.method.toLowerCase()}(`,
+      ...args,
+      ')',
+      'print(response.status_code, response.text)',
+    );
+    return this.withComments('#', lines.join('\n'), request);
+  }
+
+  private jsUrl(request: SnippetRequest): string {
+    const parts = [request.url, ...queryString(request.query)];
+    if (parts.every(part => typeof part === 'string')) {
+      return JSON.stringify(parts.join(''));
+    }
+    const text = parts.map(part => typeof part === 'string'
+      ? part.replace(/([`\\$])/g, '\\$1')
+      : `\${encodeURIComponent(process.env.${(part as { env: string }).env})}`
+    ).join('');
+    return `\`${text}\``;
+  }
+
+  private jsFormData(fields: FormField[]): string[] {
+    return [
+      'const form = new FormData();',
+      ...fields.map(field => field.file
+        ? `form.append(${JSON.stringify(field.name)}, new Blob([/* contents of ${field.value} */]), ${JSON.stringify(field.value.split('/').pop())});`
+        : `form.append(${JSON.stringify(field.name)}, ${JSON.stringify(field.value)});`),
+    ];
+  }
+
+  private withComments(marker: string, code: string, request: SnippetRequest): string {
+    return [...request.comments.map(comment => `${marker} ${comment}`), code].join('\n');
+  }
+}
@@ -0,0 +1,345 @@
+import { getRequestBodySchema, getResponseSchemas, parameterSchema, resolveParameters } from './operation-schemas.js';
+import { SchemaExpander } from './schema-expander.js';
+import { EndpointInfo, SwaggerDoc, SwaggerFetcher } from './swagger-fetcher.js';
+
+export type ChangeType = 'added' | 'removed' | 'changed';
+
+export interface SpecChange {
+  type: ChangeType;
+  kind: 'info' | 'operation' | 'parameter' | 'request-body' | 'response' | 'property' | 'schema';
+  location: string;
+  breaking: boolean;
+  message: string;
+}
+
+export interface SpecDiff {
+  summary: {
+    total: number;
+    breaking: number;
+    nonBreaking: number;
+  };
+  changes: SpecChange[];
+}
+
+type Direction = 'request' | 'response';
+
+const COMPARE_DEPTH = 6;
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function typeLabel(schema: Record<string, any>): string {
+  const types = Array.isArray(schema.type) ? [...schema.type].sort() : schema.type ? [schema.type] : [];
+  if (schema.nullable || schema['x-nullable']) {
+    types.push('null');
+  }
+  return types.join('|') || (schema.properties ? 'object' : 'any');
+}
+
+function variantNames(variants: any[]): string[] {
+  return variants.map((variant, index) => {
+    const ref = variant?.['x-ref'] || variant?.$ref;
+    return ref ? ref.substring(ref.lastIndexOf('/') + 1) : `#${index + 1}`;
+  });
+}
+
+export class SpecDiffer {
+  private changes: SpecChange[] = [];
+  private baseExpander!: SchemaExpander;
+  private headExpander!: SchemaExpander;
+
+  constructor(private fetcher: SwaggerFetcher) {}
+
+  diff(base: SwaggerDoc, head: SwaggerDoc): SpecDiff {
+    this.changes = [];
+    this.baseExpander = new SchemaExpander(base, { mode: 'full', maxDepth: COMPARE_DEPTH });
+    this.headExpander = new SchemaExpander(head, { mode: 'full', maxDepth: COMPARE_DEPTH });
+
+    if (base.info?.version !== head.info?.version) {
+      this.record('changed', 'info', 'info.version', false, `API version changed from ${base.info?.version} to ${head.info?.version}`);
+    }
+
+    const baseOperations = this.operationsByKey(base);
+    const headOperations = this.operationsByKey(head);
+
+    for (const [key, endpoint] of baseOperations) {
+      const headEndpoint = headOperations.get(key);
+      if (!headEndpoint) {
+        this.record('removed', 'operation', key, true, `Removed operation ${key}`);
+        continue;
+      }
+      this.compareOperation(key, base, endpoint, head, headEndpoint);
+    }
+    for (const key of headOperations.keys()) {
+      if (!baseOperations.has(key)) {
+        this.record('added', 'operation', key, false, `Added operation ${key}`);
+      }
+    }
+
+    const baseSchemas = this.fetcher.getSchemas(base);
+    const headSchemas = this.fetcher.getSchemas(head);
+    for (const name of Object.keys(baseSchemas)) {
+      if (!(name in headSchemas)) {
+        this.record('removed', 'schema', `schemas.${name}`, false, `Removed schema ${name}`);
+      }
+    }
+    for (const name of Object.keys(headSchemas)) {
+      if (!(name in baseSchemas)) {
+        this.record('added', 'schema', `schemas.${name}`, false, `Added schema ${name}`);
+      }
+    }
+
+    const breaking = this.changes.filter(change => change.breaking).length;
+    return {
+      summary: {
+        total: this.changes.length,
+        breaking,
+        nonBreaking: this.changes.length - breaking,
+      },
+      changes: this.changes,
+    };
+  }
+
+  toChangelog(diff: SpecDiff): string {
+    if (diff.changes.length === 0) {
+      return 'No changes detected.';
+    }
+
+    const sections: string[] = [];
+    const breaking = diff.changes.filter(change => change.breaking);
+    const nonBreaking = diff.changes.filter(change => !change.breaking);
+    if (breaking.length > 0) {
+      sections.push(`## Breaking changes (${breaking.length})\n\n${breaking.map(change => `- ${change.message}`).join('\n')}`);
+    }
+    if (nonBreaking.length > 0) {
+      sections.push(`## Non-breaking changes (${nonBreaking.length})\n\n${nonBreaking.map(change => `- ${change.message}`).join('\n')}`);
+    }
+    return sections.join('\n\n');
+  }
+
+  private record(type: ChangeType, kind: SpecChange['kind'], location: string, breaking: boolean, message: string): void {
+    this.changes.push({ type, kind, location, breaking, message });
+  }
+
+  private operationsByKey(doc: SwaggerDoc): Map<string, EndpointInfo> {
+    return new Map(this.fetcher.getEndpoints(doc).map(endpoint => [`${endpoint.method} ${endpoint.path}`, endpoint]));
+  }
+
+  private compareOperation(key: string, base: SwaggerDoc, baseEndpoint: EndpointInfo, head: SwaggerDoc, headEndpoint: EndpointInfo): void {
+    const baseOperation = base.paths[baseEndpoint.path]?.[baseEndpoint.method.toLowerCase()] || {};
+    const headOperation = head.paths[headEndpoint.path]?.[headEndpoint.method.toLowerCase()] || {};
+    if (!baseOperation.deprecated && headOperation.deprecated) {
+      this.record('changed', 'operation', key, false, `Deprecated operation ${key}`);
+    }
+
+    this.compareParameters(key, base, baseEndpoint, head, headEndpoint);
+
+    const baseBody = getRequestBodySchema(base, baseEndpoint);
+    const headBody = getRequestBodySchema(head, headEndpoint);
+    const baseBodyRequired = !!(baseEndpoint.requestBody?.required
+      || resolveParameters(base, baseEndpoint).some(parameter => parameter.in === 'body' && parameter.required));
+    const headBodyRequired = !!(headEndpoint.requestBody?.required
+      || resolveParameters(head, headEndpoint).some(parameter => parameter.in === 'body' && parameter.required));
+
+    if (baseBody && !headBody) {
+      this.record('removed', 'request-body', `${key} request`, true, `Removed request body from ${key}`);
+    } else if (!baseBody && headBody) {
+      this.record('added', 'request-body', `${key} request`, headBodyRequired, `Added ${headBodyRequired ? 'required' : 'optional'} request body to ${key}`);
+    } else if (baseBody && headBody) {
+      if (!baseBodyRequired && headBodyRequired) {
+        this.record('changed', 'request-body', `${key} request`, true, `Request body of ${key} became required`);
+      }
+      if (baseBody.contentType !== headBody.contentType) {
+        this.record('changed', 'request-body', `${key} request`, true, `Request content type of ${key} changed from ${baseBody.contentType} to ${headBody.contentType}`);
+      }
+      this.compareSchemas(`${key} request`, baseBody.schema, headBody.schema, 'request');
+    }
+
+    const baseResponses = new Map(getResponseSchemas(base, baseEndpoint).map(response => [response.status, response]));
+    const headResponses = new Map(getResponseSchemas(head, headEndpoint).map(response => [response.status, response]));
+    const baseStatuses = Object.keys(baseEndpoint.responses || {});
+    const headStatuses = Object.keys(headEndpoint.responses || {});
+
+    for (const status of baseStatuses) {
+      if (!headStatuses.includes(status)) {
+        // Clients may depend on documented success codes; losing an error code is harmless
+        const breaking = status.startsWith('2');
+        this.record('removed', 'response', `${key} ${status}`, breaking, `Removed response ${status} from ${key}`);
+      }
+    }
+    for (const status of headStatuses) {
+      if (!baseStatuses.includes(status)) {
+        this.record('added', 'response', `${key} ${status}`, false, `Added response ${status} to ${key}`);
+      }
+    }
+    for (const [status, baseResponse] of baseResponses) {
+      const headResponse = headResponses.get(status);
+      if (headResponse) {
+        this.compareSchemas(`${key} ${status} response`, baseResponse.schema, headResponse.schema, 'response');
+      } else if (headStatuses.includes(status)) {
+        this.record('removed', 'response', `${key} ${status}`, true, `Removed response body from ${status} of ${key}`);
+      }
+    }
+  }
+
+  private compareParameters(key: string, base: SwaggerDoc, baseEndpoint: EndpointInfo, head: SwaggerDoc, headEndpoint: EndpointInfo): void {
+    const index = (doc: SwaggerDoc, endpoint: EndpointInfo) => new Map(
+      resolveParameters(doc, endpoint)
+        .filter(parameter => parameter.in !== 'body' && parameter.in !== 'formData')
+        .map(parameter => [`${parameter.in}.${parameter.name}`, parameter])
+    );
+    const baseParameters = index(base, baseEndpoint);
+    const headParameters = index(head, headEndpoint);
+
+    for (const [name, parameter] of baseParameters) {
+      const headParameter = headParameters.get(name);
+      const location = `${key} ${name}`;
+      if (!headParameter) {
+        this.record('removed', 'parameter', location, true, `Removed parameter ${name} from ${key}`);
+        continue;
+      }
+      if (!parameter.required && headParameter.required) {
+        this.record('changed', 'parameter', location, true, `Parameter ${name} of ${key} became required`);
+      } else if (parameter.required && !headParameter.required) {
+        this.record('changed', 'parameter', location, false, `Parameter ${name} of ${key} became optional`);
+      }
+      this.compareSchemas(location, parameterSchema(parameter), parameterSchema(headParameter), 'request');
+    }
+    for (const [name, parameter] of headParameters) {
+      if (!baseParameters.has(name)) {
+        const required = !!parameter.required || parameter.in === 'path';
+        this.record('added', 'parameter', `${key} ${name}`, required, `Added ${required ? 'required' : 'optional'} parameter ${name} to ${key}`);
+      }
+    }
+  }
+
+  private compareSchemas(location: string, baseSchema: any, headSchema: any, direction: Direction): void {
+    this.compareExpanded(
+      location,
+      this.baseExpander.expand(baseSchema, 'schema'),
+      this.headExpander.expand(headSchema, 'schema'),
+      direction
+    );
+  }
+
+  // Request changes break callers when previously valid input becomes invalid;
+  // response changes break callers when they may receive something they did not expect
+  private compareExpanded(location: string, base: any, head: any, direction: Direction): void {
+    if (!isPlainObject(base) || !isPlainObject(head)) {
+      return;
+    }
+    // Cycles and depth limits leave references behind; compare those by name only
+    if (typeof base.$ref === 'string' || typeof head.$ref === 'string') {
+      if (base.$ref !== head.$ref && base['x-ref'] !== head.$ref && head['x-ref'] !== base.$ref) {
+        this.record('changed', 'property', location, true, `${location}: schema reference changed`);
+      }
+      return;
+    }
+
+    const baseType = typeLabel(base);
+    const headType = typeLabel(head);
+    if (baseType !== headType) {
+      const widenedToNullable = headType === `${baseType}|null`;
+      this.record('changed', 'property', location, !(widenedToNullable && direction === 'request'),
+        `${location}: type changed from ${baseType} to ${headType}`);
+      return;
+    }
+
+    this.compareEnums(location, base.enum, head.enum, direction);
+    this.compareConstraints(location, base, head, direction);
+
+    const baseVariants = base.oneOf || base.anyOf;
+    const headVariants = head.oneOf || head.anyOf;
+    if (Array.isArray(baseVariants) && Array.isArray(headVariants)) {
+      const baseNames = variantNames(baseVariants);
+      const headNames = variantNames(headVariants);
+      for (const name of baseNames.filter(name => !headNames.includes(name))) {
+        this.record('removed', 'property', location, direction === 'request', `${location}: removed variant ${name}`);
+      }
+      for (const name of headNames.filter(name => !baseNames.includes(name))) {
+        this.record('added', 'property', location, direction === 'response', `${location}: added variant ${name}`);
+      }
+    }
+
+    if (base.items || head.items) {
+      this.compareExpanded(`${location}[]`, base.items, head.items, direction);
+    }
+
+    const baseProperties: Record<string, any> = base.properties || {};
+    const headProperties: Record<string, any> = head.properties || {};
+    const baseRequired = new Set<string>(base.required || []);
+    const headRequired = new Set<string>(head.required || []);
+
+    for (const [name, property] of Object.entries(baseProperties)) {
+      const propertyLocation = `${location}.${name}`;
+      if (!(name in headProperties)) {
+        this.record('removed', 'property', propertyLocation, direction === 'response',
+          `${propertyLocation}: removed ${direction} property`);
+        continue;
+      }
+      if (!baseRequired.has(name) && headRequired.has(name)) {
+        this.record('changed', 'property', propertyLocation, direction === 'request', `${propertyLocation}: became required`);
+      } else if (baseRequired.has(name) && !headRequired.has(name)) {
+        this.record('changed', 'property', propertyLocation, direction === 'response', `${propertyLocation}: became optional`);
+      }
+      this.compareExpanded(propertyLocation, property, headProperties[name], direction);
+    }
+    for (const name of Object.keys(headProperties)) {
+      if (!(name in baseProperties)) {
+        const required = headRequired.has(name);
+        this.record('added', 'property', `${location}.${name}`, direction === 'request' && required,
+          `${location}.${name}: added ${required ? 'required' : 'optional'} ${direction} property`);
+      }
+    }
+  }
+
+  private compareEnums(location: string, baseEnum: unknown, headEnum: unknown, direction: Direction): void {
+    if (!Array.isArray(baseEnum) && !Array.isArray(headEnum)) {
+      return;
+    }
+    if (!Array.isArray(baseEnum)) {
+      this.record('changed', 'property', location, direction === 'request', `${location}: restricted to values ${JSON.stringify(headEnum)}`);
+      return;
+    }
+    if (!Array.isArray(headEnum)) {
+      this.record('changed', 'property', location, direction === 'response', `${location}: no longer restricted to enum values`);
+      return;
+    }
+
+    const removed = baseEnum.filter(value => !headEnum.includes(value));
+    const added = headEnum.filter(value => !baseEnum.includes(value));
+    if (removed.length > 0) {
+      this.record('changed', 'property', location, direction === 'request', `${location}: enum narrowed, removed ${JSON.stringify(removed)}`);
+    }
+    if (added.length > 0) {
+      this.record('changed', 'property', location, direction === 'response', `${location}: enum widened, added ${JSON.stringify(added)}`);
+    }
+  }
+
+  private compareConstraints(location: string, base: Record<string, any>, head: Record<string, any>, direction: Direction): void {
+    // For each keyword, whether a larger value narrows what is valid
+    const limits: Array<[string, boolean]> = [
+      ['minimum', true], ['maximum', false], ['minLength', true], ['maxLength', false], ['minItems', true], ['maxItems', false],
+    ];
+
+    for (const [keyword, largerNarrows] of limits) {
+      const before = base[keyword];
+      const after = head[keyword];
+      if (before === after) {
+        continue;
+      }
+      const narrowed = before === undefined
+        || (after !== undefined && (largerNarrows ? after > before : after < before));
+      this.record('changed', 'property', location, narrowed === (direction === 'request'),
+        `${location}: ${keyword} changed from ${before ?? 'none'} to ${after ?? 'none'}`);
+    }
+
+    for (const keyword of ['format', 'pattern']) {
+      if (base[keyword] !== head[keyword]) {
+        this.record('changed', 'property', location, direction === 'request' && head[keyword] !== undefined,
+          `${location}: ${keyword} changed from ${base[keyword] ?? 'none'} to ${head[keyword] ?? 'none'}`);
+      }
+    }
+  }
+}
@@ -0,0 +1,227 @@
+import * as YAML from 'yaml';
+import { SwaggerConfig, SwaggerDoc } from './swagger-fetcher.js';
+
+export interface FetchedDocument {
+  body: string;
+  contentType?: string;
+}
+
+export type DiscoveryResult =
+  | { kind: 'spec'; url: string; doc: SwaggerDoc }
+  | { kind: 'config'; url: string; config: SwaggerConfig; urls: Array<{ url: string; name: string }> };
+
+type FetchDocument = (url: string) => Promise<FetchedDocument>;
+
+// What a Swagger UI setup declares, wherever it was found
+interface UiSettings {
+  url?: string;
+  urls?: Array<{ url: string; name: string }>;
+  configUrl?: string;
+}
+
+const SPEC_FILE_PATTERN = /\.(json|ya?ml)$/i;
+const MAX_CONFIG_HOPS = 3;
+
+function isSpec(value: any): value is SwaggerDoc {
+  return !!value && typeof value === 'object' && (typeof value.openapi === 'string' || typeof value.swagger === 'string');
+}
+
+function looksLikeHtml(document: FetchedDocument): boolean {
+  return /html/i.test(document.contentType || '') || /^\s*</.test(document.body);
+}
+
+function looksLikeScript(url: string, document: FetchedDocument): boolean {
+  return /javascript/i.test(document.contentType || '') || /\.m?js(\?|$)/i.test(url);
+}
+
+// JSON and YAML both parse with the YAML parser, but JSON first gives clearer results for JSON bodies
+export function parseStructured(body: string): any {
+  const trimmed = body.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    try {
+      return JSON.parse(trimmed);
+    } catch {
+      // Fall through to YAML, which also accepts most loose JSON
+    }
+  }
+  try {
+    return YAML.parse(trimmed);
+  } catch {
+    return undefined;
+  }
+}
+
+function stringProperty(source: string, name: string): string | undefined {
+  const match = source.match(new RegExp(`["']?\\b${name}["']?\\s*:\\s*(["'\`])([^"'\`]+)\\1`));
+  return match?.[2];
+}
+
+// Pulls url/urls/configUrl out of SwaggerUIBundle({...}) calls in HTML or swagger-initializer.js
+function extractUiSettings(script: string): UiSettings {
+  const settings: UiSettings = {};
+  let remainder = script;
+
+  const urlsMatch = script.match(/["']?\burls["']?\s*:\s*\[([\s\S]*?)\]/);
+  if (urlsMatch) {
+    const entries = urlsMatch[1].match(/\{[^{}]*\}/g) || [];
+    settings.urls = entries.flatMap(entry => {
+      const url = stringProperty(entry, 'url');
+      return url ? [{ url, name: stringProperty(entry, 'name') || url }] : [];
+    });
+    remainder = script.replace(urlsMatch[0], '');
+  }
+
+  settings.configUrl = stringProperty(remainder, 'configUrl');
+  settings.url = stringProperty(remainder, 'url');
+  return settings;
+}
+
+function scriptSources(html: string): string[] {
+  return Array.from(html.matchAll(/<script[^>]*\bsrc\s*=\s*["']([^"']+)["']/gi), match => match[1]);
+}
+
+// Finds the spec behind a URL that may be a spec, a swagger-config, a Swagger UI page or its initializer script
+export class SpecDiscovery {
+  constructor(private fetchDocument: FetchDocument) {}
+
+  async discover(url: string): Promise<DiscoveryResult> {
+    let document: FetchedDocument | undefined;
+    try {
+      document = await this.fetchDocument(url);
+    } catch (error) {
+      // A URL naming a spec file should not send us probing elsewhere
+      if (SPEC_FILE_PATTERN.test(new URL(url).pathname)) {
+        throw error;
+      }
+      console.error(`[SpecDiscovery] ${url} could not be fetched, probing well-known locations: ${error}`);
+    }
+
+    if (document) {
+      const result = await this.fromDocument(url, document, url);
+      if (result) {
+        return result;
+      }
+    }
+
+    for (const candidate of this.wellKnownLocations(url)) {
+      let probed: FetchedDocument;
+      try {
+        probed = await this.fetchDocument(candidate);
+      } catch {
+        continue;
+      }
+      console.error(`[SpecDiscovery] Found ${candidate}`);
+      const result = await this.fromDocument(candidate, probed, url);
+      if (result) {
+        return result;
+      }
+    }
+
+    throw new Error(`No OpenAPI/Swagger document found at ${url} or its well-known locations (swagger-initializer.js, swagger-config, /v3/api-docs)`);
+  }
+
+  private async fromDocument(url: string, document: FetchedDocument, pageUrl: string): Promise<DiscoveryResult | null> {
+    if (looksLikeHtml(document)) {
+      return this.fromHtml(url, document.body);
+    }
+    if (looksLikeScript(url, document)) {
+      return this.fromSettings(extractUiSettings(document.body), url, pageUrl, 0);
+    }
+
+    const parsed = parseStructured(document.body);
+    if (isSpec(parsed)) {
+      return { kind: 'spec', url, doc: parsed };
+    }
+    if (parsed && typeof parsed === 'object' && (parsed.urls || parsed.url || parsed.configUrl)) {
+      return this.fromSettings(parsed, url, pageUrl, 0);
+    }
+    return null;
+  }
+
+  private async fromHtml(pageUrl: string, html: string): Promise<DiscoveryResult | null> {
+    // Inline configuration in the page itself
+    const inline = extractUiSettings(html.replace(/<script[^>]*\bsrc\s*=[^>]*>/gi, ''));
+    if (inline.url || inline.urls?.length || inline.configUrl) {
+      const result = await this.fromSettings(inline, pageUrl, pageUrl, 0);
+      if (result) {
+        return result;
+      }
+    }
+
+    // Swagger UI 4+ keeps its configuration in swagger-initializer.js
+    const initializers = scriptSources(html).filter(src => !/swagger-ui(-bundle|-standalone-preset)?(\.min)?\.js/i.test(src));
+    for (const src of initializers) {
+      const scriptUrl = new URL(src, pageUrl).toString();
+      try {
+        const script = await this.fetchDocument(scriptUrl);
+        const result = await this.fromSettings(extractUiSettings(script.body), scriptUrl, pageUrl, 0);
+        if (result) {
+          return result;
+        }
+      } catch (error) {
+        console.error(`[SpecDiscovery] Could not read script ${scriptUrl}: ${error}`);
+      }
+    }
+    return null;
+  }
+
+  // Relative spec URLs are resolved against the Swagger UI page, as the browser would
+  private async fromSettings(settings: any, settingsUrl: string, pageUrl: string, hops: number): Promise<DiscoveryResult | null> {
+    const base = pageUrl || settingsUrl;
+
+    if (Array.isArray(settings.urls) && settings.urls.length > 0) {
+      const urls = settings.urls
+        .filter((entry: any) => entry?.url)
+        .map((entry: any) => ({ name: String(entry.name || entry.url), url: new URL(entry.url, base).toString() }));
+      return { kind: 'config', url: settingsUrl, config: { ...settings, urls }, urls };
+    }
+
+    if (typeof settings.url === 'string' && settings.url) {
+      const specUrl = new URL(settings.url, base).toString();
+      const document = await this.fetchDocument(specUrl);
+      const parsed = parseStructured(document.body);
+      if (isSpec(parsed)) {
+        return { kind: 'spec', url: specUrl, doc: parsed };
+      }
+      throw new Error(`${specUrl} is not an OpenAPI/Swagger document`);
+    }
+
+    if (typeof settings.configUrl === 'string' && settings.configUrl && hops < MAX_CONFIG_HOPS) {
+      const configUrl = new URL(settings.configUrl, base).toString();
+      console.error(`[SpecDiscovery] Following configUrl ${configUrl}`);
+      const config = parseStructured((await this.fetchDocument(configUrl)).body);
+      if (config && typeof config === 'object') {
+        return this.fromSettings(config, configUrl, pageUrl, hops + 1);
+      }
+    }
+
+    return null;
+  }
+
+  private wellKnownLocations(url: string): string[] {
+    const parsed = new URL(url);
+    const origin = parsed.origin;
+    const directory = parsed.pathname.endsWith('/') ? parsed.pathname : parsed.pathname.replace(/[^/]*$/, '');
+    // springdoc serves the UI under /swagger-ui/ and the docs under /v3/api-docs, below any context path
+    const contextPath = parsed.pathname.includes('/swagger-ui')
+      ? parsed.pathname.slice(0, parsed.pathname.indexOf('/swagger-ui'))
+      : directory.replace(/\/$/, '');
+
+    const candidates = [
+      `${origin}${directory}swagger-initializer.js`,
+      `${origin}${directory}swagger-config.json`,
+      `${origin}${contextPath}/v3/api-docs/swagger-config`,
+      `${origin}${contextPath}/v3/api-docs`,
+      `${origin}${contextPath}/v2/api-docs`,
+      `${origin}${contextPath}/openapi.json`,
+      `${origin}${contextPath}/swagger.json`,
+      `${origin}/swagger-config.json`,
+      `${origin}/v3/api-docs/swagger-config`,
+      `${origin}/v3/api-docs`,
+    ];
+    return Array.from(new Set(candidates)).filter(candidate => candidate !== url);
+  }
+}
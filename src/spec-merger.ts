@@ -0,0 +1,276 @@
+import { mapSpecObjects, visitSpecObjects } from './spec-refs.js';
+import { SwaggerDoc } from './swagger-fetcher.js';
+
+export type ConflictKind = 'schema' | 'parameter' | 'requestBody' | 'response' | 'header' | 'example' | 'link' | 'callback' | 'securityScheme' | 'operation' | 'operationId';
+
+export interface MergeConflict {
+  kind: ConflictKind;
+  name: string;
+  sources: string[];
+  resolution: string;
+}
+
+export interface MergedSources {
+  paths: Record<string, any>;
+  components: Record<string, Record<string, any>>;
+  tags: Array<{ name: string; description?: string }>;
+  conflicts: MergeConflict[];
+}
+
+interface SourceDoc {
+  name: string;
+  doc: SwaggerDoc;
+}
+
+const COMPONENT_SECTIONS: Record<string, ConflictKind> = {
+  schemas: 'schema',
+  parameters: 'parameter',
+  requestBodies: 'requestBody',
+  responses: 'response',
+  headers: 'header',
+  examples: 'example',
+  links: 'link',
+  callbacks: 'callback',
+  securitySchemes: 'securityScheme',
+};
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+const COMPONENT_REF_PATTERN = /^#\/components\/([^/]+)\/(.+)$/;
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapePointer(segment: string): string {
+  return decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+// JSON with sorted keys, so definitions that only differ in key order compare equal
+function canonical(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonical).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonical(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// The component refs in one definition, read the way its section is read in a document
+function componentRefs(section: string, definition: any): Set<string> {
+  const found = new Set<string>();
+  visitSpecObjects({ [section]: { definition } }, node => {
+    const match = typeof node.$ref === 'string' ? node.$ref.match(COMPONENT_REF_PATTERN) : null;
+    if (match) {
+      found.add(`${match[1]}/${unescapePointer(match[2])}`);
+    }
+  }, 'sections');
+  return found;
+}
+
+// Component names are prefixed with their source, e.g. "orders.ErrorResponse"
+function namespaced(source: string, name: string): string {
+  return `${source.replace(/[^A-Za-z0-9_-]+/g, '_')}.${name}`;
+}
+
+// Merges swagger-config sources into one document. Components that mean different things in
+// different sources are namespaced per source and their $refs rewritten; identical ones are shared.
+export function mergeSources(sources: SourceDoc[]): MergedSources {
+  const conflicts: MergeConflict[] = [];
+  const renames = findComponentConflicts(sources, conflicts);
+
+  const components: Record<string, Record<string, any>> = {};
+  const paths: Record<string, any> = {};
+  const sharedPaths = new Set<string>();
+  const tags: Array<{ name: string; description?: string }> = [];
+  const operationIds = new Map<string, string[]>();
+
+  for (const { name: source, doc } of sources) {
+    const sourceRenames = renames.get(source) || new Map<string, string>();
+    const rename = (section: string, name: string) => sourceRenames.get(`${section}/${name}`) || name;
+    const rewritten = rewriteRefs({ paths: doc.paths || {}, components: doc.components || {} }, rename);
+
+    for (const [section, entries] of Object.entries<Record<string, any>>(rewritten.components)) {
+      if (!entries || typeof entries !== 'object') {
+        continue;
+      }
+      components[section] = components[section] || {};
+      for (const [name, definition] of Object.entries(entries)) {
+        const target = rename(section, name);
+        if (!(target in components[section])) {
+          components[section][target] = definition;
+        }
+      }
+    }
+
+    for (const [path, pathItem] of Object.entries<any>(rewritten.paths)) {
+      if (!pathItem || typeof pathItem !== 'object') {
+        continue;
+      }
+      const item = annotatePathItem(pathItem, source, doc.security, name => rename('securitySchemes', name));
+      for (const method of HTTP_METHODS) {
+        const operationId = item[method]?.operationId;
+        if (operationId) {
+          operationIds.set(operationId, [...(operationIds.get(operationId) || []), source]);
+        }
+      }
+
+      const existing = paths[path];
+      if (!existing) {
+        paths[path] = item;
+        continue;
+      }
+
+      // Path-level parameters and servers belong to one source, so push them down before sharing the path
+      if (!sharedPaths.has(path)) {
+        paths[path] = inlinePathLevel(existing);
+        sharedPaths.add(path);
+      }
+      const incoming = inlinePathLevel(item);
+      for (const method of HTTP_METHODS) {
+        if (!incoming[method]) {
+          continue;
+        }
+        if (paths[path][method]) {
+          const owner = paths[path][method]['x-source'];
+          conflicts.push({
+            kind: 'operation',
+            name: `${method.toUpperCase()} ${path}`,
+            sources: [owner, source],
+            resolution: `Kept the operation from ${owner}; the one from ${source} is available through get_doc_by_source`,
+          });
+          continue;
+        }
+        paths[path][method] = incoming[method];
+      }
+    }
+
+    for (const tag of doc.tags || []) {
+      if (!tags.some(existing => existing.name === tag.name)) {
+        tags.push(tag);
+      }
+    }
+  }
+
+  for (const [operationId, owners] of operationIds) {
+    if (owners.length > 1) {
+      conflicts.push({
+        kind: 'operationId',
+        name: operationId,
+        sources: owners,
+        resolution: 'Lookups by this operationId return the first match; use method and path, or get_doc_by_source, to reach the others',
+      });
+    }
+  }
+
+  return { paths, components, tags, conflicts };
+}
+
+// Returns, per source, the "section/name" keys that need a namespaced name
+function findComponentConflicts(sources: SourceDoc[], conflicts: MergeConflict[]): Map<string, Map<string, string>> {
+  const definitions = new Map<string, Array<{ source: string; definition: any }>>();
+  for (const { name: source, doc } of sources) {
+    for (const section of Object.keys(COMPONENT_SECTIONS)) {
+      for (const [name, definition] of Object.entries((doc.components as any)?.[section] || {})) {
+        const key = `${section}/${name}`;
+        definitions.set(key, [...(definitions.get(key) || []), { source, definition }]);
+      }
+    }
+  }
+
+  const conflicting = new Set<string>();
+  for (const [key, entries] of definitions) {
+    if (entries.length > 1 && new Set(entries.map(entry => canonical(entry.definition))).size > 1) {
+      conflicting.add(key);
+    }
+  }
+
+  // A shared definition that refers to a namespaced one would point at a single source's
+  // version, so it is namespaced as well, until nothing changes
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const [key, entries] of definitions) {
+      if (entries.length > 1 && !conflicting.has(key)
+        && entries.some(entry => Array.from(componentRefs(key.slice(0, key.indexOf('/')), entry.definition)).some(ref => conflicting.has(ref)))) {
+        conflicting.add(key);
+        changed = true;
+      }
+    }
+  }
+
+  const renames = new Map<string, Map<string, string>>();
+  for (const key of conflicting) {
+    const separator = key.indexOf('/');
+    const section = key.slice(0, separator);
+    const name = key.slice(separator + 1);
+    const entries = definitions.get(key) || [];
+    const renamed = entries.map(entry => {
+      const target = namespaced(entry.source, name);
+      const sourceRenames = renames.get(entry.source) || new Map<string, string>();
+      sourceRenames.set(key, target);
+      renames.set(entry.source, sourceRenames);
+      return target;
+    });
+    conflicts.push({
+      kind: COMPONENT_SECTIONS[section],
+      name,
+      sources: entries.map(entry => entry.source),
+      resolution: `Renamed to ${renamed.join(', ')}`,
+    });
+  }
+  return renames;
+}
+
+function rewriteRefs(value: any, rename: (section: string, name: string) => string): any {
+  return mapSpecObjects(value, node => {
+    const match = typeof node.$ref === 'string' ? node.$ref.match(COMPONENT_REF_PATTERN) : null;
+    if (match) {
+      node.$ref = `#/components/${match[1]}/${escapePointer(rename(match[1], unescapePointer(match[2])))}`;
+    }
+    return node;
+  });
+}
+
+// Tags each operation with its source and gives it the source's global security, with renamed schemes
+function annotatePathItem(pathItem: any, source: string, security: any[] | undefined, renameScheme: (name: string) => string): any {
+  const item = { ...pathItem };
+  for (const method of HTTP_METHODS) {
+    if (!item[method]) {
+      continue;
+    }
+    const requirements = item[method].security || security;
+    item[method] = {
+      ...item[method],
+      'x-source': source,
+      ...(requirements ? {
+        security: requirements.map((requirement: Record<string, string[]>) => Object.fromEntries(
+          Object.entries(requirement).map(([scheme, scopes]) => [renameScheme(scheme), scopes])
+        )),
+      } : {}),
+    };
+  }
+  return item;
+}
+
+function inlinePathLevel(pathItem: any): any {
+  const { parameters: pathParameters = [], servers, ...item } = pathItem;
+  const key = (parameter: any) => parameter.$ref || `${parameter.in}:${parameter.name}`;
+
+  for (const method of HTTP_METHODS) {
+    if (!item[method]) {
+      continue;
+    }
+    const operation = { ...item[method] };
+    const overridden = new Set((operation.parameters || []).map(key));
+    const inherited = pathParameters.filter((parameter: any) => !overridden.has(key(parameter)));
+    if (inherited.length > 0) {
+      operation.parameters = [...inherited, ...(operation.parameters || [])];
+    }
+    if (servers && !operation.servers) {
+      operation.servers = servers;
+    }
+    item[method] = operation;
+  }
+  return item;
+}
@@ -0,0 +1,334 @@
+import { mapSpecObjects } from './spec-refs.js';
+import { detectVersion } from './spec-validator.js';
+import { SwaggerDoc } from './swagger-fetcher.js';
+
+// The OpenAPI version Swagger 2 documents are converted to
+export const NORMALIZED_VERSION = '3.0.3';
+
+// Normalized docs keep the document they were converted from, for validation and version
+// reporting. A symbol key survives object spreads but stays out of JSON output.
+const ORIGINAL_DOCUMENT = Symbol('originalDocument');
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch'];
+const DEFAULT_MEDIA_TYPE = 'application/json';
+const FORM_MEDIA_TYPES = ['multipart/form-data', 'application/x-www-form-urlencoded'];
+
+// Swagger 2 parameter and header fields that belong in the OpenAPI 3 schema
+const SCHEMA_FIELDS = [
+  'type', 'format', 'items', 'default', 'enum', 'multipleOf',
+  'maximum', 'exclusiveMaximum', 'minimum', 'exclusiveMinimum',
+  'maxLength', 'minLength', 'pattern', 'maxItems', 'minItems', 'uniqueItems',
+];
+
+const COLLECTION_FORMATS: Record<string, { style: string; explode: boolean }> = {
+  csv: { style: 'form', explode: false },
+  ssv: { style: 'spaceDelimited', explode: false },
+  pipes: { style: 'pipeDelimited', explode: false },
+  multi: { style: 'form', explode: true },
+};
+
+export function originalDocument(doc: SwaggerDoc): SwaggerDoc {
+  return (doc as any)[ORIGINAL_DOCUMENT] || doc;
+}
+
+// The version each document was written in, e.g. "Swagger 2.0" for a converted doc
+export function originalVersion(docs: SwaggerDoc[]): string {
+  const versions = Array.from(new Set(docs.map(doc => detectVersion(originalDocument(doc)))));
+  return versions.filter(version => version !== 'unknown').join(', ') || 'unknown';
+}
+
+// Converts Swagger 2 documents to the OpenAPI 3 shape; OpenAPI 3 documents are returned as they are
+export function normalizeSpec(doc: SwaggerDoc): SwaggerDoc {
+  if (doc.openapi || doc.swagger !== '2.0') {
+    return doc;
+  }
+  return new Swagger2Converter(doc).convert();
+}
+
+function pick(source: Record<string, any>, fields: string[]): Record<string, any> {
+  return Object.fromEntries(fields.filter(field => source[field] !== undefined).map(field => [field, source[field]]));
+}
+
+function omit(source: Record<string, any>, fields: string[]): Record<string, any> {
+  return Object.fromEntries(Object.entries(source).filter(([field]) => !fields.includes(field)));
+}
+
+function localName(ref: string, section: string): string | undefined {
+  const prefix = `#/${section}/`;
+  return ref.startsWith(prefix) ? ref.slice(prefix.length) : undefined;
+}
+
+class Swagger2Converter {
+  constructor(private doc: any) {}
+
+  convert(): SwaggerDoc {
+    const doc = this.doc;
+    const components: Record<string, any> = {};
+
+    if (doc.definitions) {
+      components.schemas = doc.definitions;
+    }
+
+    const parameters: Record<string, any> = {};
+    const requestBodies: Record<string, any> = {};
+    for (const [name, parameter] of Object.entries<any>(doc.parameters || {})) {
+      if (parameter.in === 'body') {
+        requestBodies[name] = this.bodyFromParameter(parameter, doc.consumes);
+      } else if (parameter.in !== 'formData') {
+        // Shared form fields have no OpenAPI 3 counterpart; operations inline them instead
+        parameters[name] = this.convertParameter(parameter);
+      }
+    }
+    if (Object.keys(parameters).length > 0) {
+      components.parameters = parameters;
+    }
+    if (Object.keys(requestBodies).length > 0) {
+      components.requestBodies = requestBodies;
+    }
+
+    if (doc.responses) {
+      components.responses = Object.fromEntries(
+        Object.entries<any>(doc.responses).map(([name, response]) => [name, this.convertResponse(response, doc.produces)])
+      );
+    }
+    if (doc.securityDefinitions) {
+      components.securitySchemes = Object.fromEntries(
+        Object.entries<any>(doc.securityDefinitions).map(([name, scheme]) => [name, this.convertSecurityScheme(scheme)])
+      );
+    }
+
+    const paths = Object.fromEntries(
+      Object.entries<any>(doc.paths || {}).map(([path, pathItem]) => [path, this.convertPathItem(pathItem)])
+    );
+
+    const converted = this.rewrite({
+      openapi: NORMALIZED_VERSION,
+      ...omit(doc, [
+        'swagger', 'host', 'basePath', 'schemes', 'consumes', 'produces', 'paths',
+        'definitions', 'parameters', 'responses', 'securityDefinitions',
+      ]),
+      servers: this.servers(),
+      paths,
+      ...(Object.keys(components).length > 0 ? { components } : {}),
+    });
+    converted[ORIGINAL_DOCUMENT] = doc;
+    return converted;
+  }
+
+  // Without a host, servers are relative to wherever the spec was served from
+  private servers(): Array<{ url: string }> {
+    const { host, basePath = '' } = this.doc;
+    if (!host) {
+      return [{ url: basePath || '/' }];
+    }
+    const schemes: string[] = this.doc.schemes?.length ? this.doc.schemes : ['https'];
+    const ordered = schemes.includes('https') ? ['https', ...schemes.filter(scheme => scheme !== 'https')] : schemes;
+    return ordered.map(scheme => ({ url: `${scheme}://${host}${basePath}` }));
+  }
+
+  private convertPathItem(pathItem: any): any {
+    if (!pathItem || typeof pathItem !== 'object') {
+      return pathItem;
+    }
+    const pathParameters: any[] = pathItem.parameters || [];
+    const converted: Record<string, any> = omit(pathItem, ['parameters']);
+
+    const shared = pathParameters.filter(parameter => !this.isPayload(parameter));
+    if (shared.length > 0) {
+      converted.parameters = shared.map(parameter => this.convertParameterOrRef(parameter));
+    }
+
+    for (const method of HTTP_METHODS) {
+      if (pathItem[method]) {
+        converted[method] = this.convertOperation(pathItem[method], pathParameters);
+      }
+    }
+    return converted;
+  }
+
+  private convertOperation(operation: any, pathParameters: any[]): any {
+    const consumes: string[] | undefined = operation.consumes || this.doc.consumes;
+    const produces: string[] | undefined = operation.produces || this.doc.produces;
+    const converted: Record<string, any> = omit(operation, ['consumes', 'produces', 'parameters', 'responses', 'schemes']);
+
+    // Operation parameters override path-level ones with the same name and location
+    const byKey = new Map<string, any>();
+    for (const parameter of [...pathParameters, ...(operation.parameters || [])]) {
+      const resolved = this.resolveParameter(parameter);
+      byKey.set(resolved ? `${resolved.in}:${resolved.name}` : JSON.stringify(parameter), parameter);
+    }
+    const operationParameters: any[] = operation.parameters || [];
+    const effective = Array.from(byKey.values());
+
+    const parameters = operationParameters.filter(parameter => !this.isPayload(parameter));
+    if (parameters.length > 0) {
+      converted.parameters = parameters.map(parameter => this.convertParameterOrRef(parameter));
+    }
+
+    const body = effective.find(parameter => this.resolveParameter(parameter)?.in === 'body');
+    const formFields = effective.map(parameter => this.resolveParameter(parameter)).filter(parameter => parameter?.in === 'formData');
+    if (body) {
+      const bodyName = body.$ref ? localName(body.$ref, 'parameters') : undefined;
+      converted.requestBody = bodyName !== undefined
+        ? { $ref: `#/components/requestBodies/${bodyName}` }
+        : this.bodyFromParameter(body, consumes);
+    } else if (formFields.length > 0) {
+      converted.requestBody = this.bodyFromFormFields(formFields, consumes);
+    }
+
+    if (operation.responses) {
+      converted.responses = Object.fromEntries(
+        Object.entries<any>(operation.responses).map(([status, response]) => [status, this.convertResponse(response, produces)])
+      );
+    }
+    return converted;
+  }
+
+  private isPayload(parameter: any): boolean {
+    const resolved = this.resolveParameter(parameter);
+    return resolved?.in === 'body' || resolved?.in === 'formData';
+  }
+
+  private resolveParameter(parameter: any): any {
+    const name = typeof parameter?.$ref === 'string' ? localName(parameter.$ref, 'parameters') : undefined;
+    return name !== undefined ? this.doc.parameters?.[name] : parameter;
+  }
+
+  private convertParameterOrRef(parameter: any): any {
+    return parameter?.$ref ? parameter : this.convertParameter(parameter);
+  }
+
+  private convertParameter(parameter: any): any {
+    const converted: Record<string, any> = omit(parameter, [...SCHEMA_FIELDS, 'collectionFormat', 'x-example']);
+    converted.schema = this.inlineSchema(parameter);
+
+    const format = COLLECTION_FORMATS[parameter.collectionFormat];
+    if (parameter.type === 'array' && format && parameter.in !== 'path' && parameter.in !== 'header') {
+      converted.style = format.style;
+      converted.explode = format.explode;
+    }
+    if (parameter['x-example'] !== undefined) {
+      converted.example = parameter['x-example'];
+    }
+    return converted;
+  }
+
+  // Turns inline Swagger 2 type keywords, including nested items, into a schema
+  private inlineSchema(source: any): any {
+    if (source.$ref) {
+      return { $ref: source.$ref };
+    }
+    const schema = pick(source, SCHEMA_FIELDS);
+    if (schema.items) {
+      schema.items = this.inlineSchema(schema.items);
+    }
+    return schema;
+  }
+
+  private bodyFromParameter(parameter: any, consumes?: string[]): any {
+    const mediaTypes = consumes?.length ? consumes : [DEFAULT_MEDIA_TYPE];
+    const examples = parameter['x-examples'] || {};
+    return {
+      ...(parameter.description ? { description: parameter.description } : {}),
+      ...(parameter.required ? { required: true } : {}),
+      content: Object.fromEntries(mediaTypes.map(mediaType => [mediaType, {
+        schema: parameter.schema || {},
+        ...(examples[mediaType] !== undefined ? { example: examples[mediaType] } : {}),
+      }])),
+    };
+  }
+
+  private bodyFromFormFields(fields: any[], consumes?: string[]): any {
+    const hasFile = fields.some(field => field.type === 'file');
+    const declared = (consumes || []).filter(mediaType => FORM_MEDIA_TYPES.includes(mediaType));
+    const mediaTypes = declared.length > 0 ? declared : [hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded'];
+
+    const required = fields.filter(field => field.required).map(field => field.name);
+    const schema = {
+      type: 'object',
+      properties: Object.fromEntries(fields.map(field => [field.name, {
+        ...this.inlineSchema(field),
+        ...(field.description ? { description: field.description } : {}),
+      }])),
+      ...(required.length > 0 ? { required } : {}),
+    };
+
+    return {
+      ...(required.length > 0 ? { required: true } : {}),
+      content: Object.fromEntries(mediaTypes.map(mediaType => [mediaType, { schema }])),
+    };
+  }
+
+  private convertResponse(response: any, produces?: string[]): any {
+    if (!response || typeof response !== 'object' || response.$ref) {
+      return response;
+    }
+    const converted: Record<string, any> = omit(response, ['schema', 'examples', 'headers']);
+
+    if (response.headers) {
+      converted.headers = Object.fromEntries(Object.entries<any>(response.headers).map(([name, header]) => [name, {
+        ...omit(header, [...SCHEMA_FIELDS, 'collectionFormat']),
+        schema: this.inlineSchema(header),
+      }]));
+    }
+
+    const examples = response.examples || {};
+    if (response.schema) {
+      const mediaTypes = produces?.length ? produces : [DEFAULT_MEDIA_TYPE];
+      converted.content = Object.fromEntries(mediaTypes.map(mediaType => [mediaType, {
+        schema: response.schema,
+        ...(examples[mediaType] !== undefined ? { example: examples[mediaType] } : {}),
+      }]));
+    } else if (Object.keys(examples).length > 0) {
+      converted.content = Object.fromEntries(Object.entries(examples).map(([mediaType, example]) => [mediaType, { example }]));
+    }
+    return converted;
+  }
+
+  private convertSecurityScheme(scheme: any): any {
+    const extras = omit(scheme, ['type', 'flow', 'authorizationUrl', 'tokenUrl', 'scopes']);
+    switch (scheme.type) {
+      case 'basic':
+        return { ...extras, type: 'http', scheme: 'basic' };
+
+      case 'oauth2': {
+        const scopes = scheme.scopes || {};
+        const flows: Record<string, any> = {
+          implicit: { implicit: { authorizationUrl: scheme.authorizationUrl, scopes } },
+          password: { password: { tokenUrl: scheme.tokenUrl, scopes } },
+          application: { clientCredentials: { tokenUrl: scheme.tokenUrl, scopes } },
+          accessCode: { authorizationCode: { authorizationUrl: scheme.authorizationUrl, tokenUrl: scheme.tokenUrl, scopes } },
+        };
+        return { ...extras, type: 'oauth2', flows: flows[scheme.flow] || {} };
+      }
+
+      default:
+        // apiKey schemes have the same shape in both versions
+        return scheme;
+    }
+  }
+
+  // Moves $refs to their OpenAPI 3 locations and updates Swagger 2 only schema keywords
+  private rewrite(value: any): any {
+    return mapSpecObjects(value, node => {
+      if (typeof node.$ref === 'string') {
+        node.$ref = node.$ref
+          .replace(/^#\/definitions\//, '#/components/schemas/')
+          .replace(/^#\/parameters\//, '#/components/parameters/')
+          .replace(/^#\/responses\//, '#/components/responses/');
+      }
+      if (node['x-nullable'] !== undefined) {
+        node.nullable = node['x-nullable'];
+        delete node['x-nullable'];
+      }
+      if (node.type === 'file') {
+        node.type = 'string';
+        node.format = 'binary';
+      }
+      if (typeof node.discriminator === 'string') {
+        node.discriminator = { propertyName: node.discriminator };
+      }
+      return node;
+    });
+  }
+}
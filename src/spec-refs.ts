@@ -0,0 +1,131 @@
+// Walks spec fragments the way $ref resolution sees them. Keys like "default" or "example" hold
+// literal data only where they are keywords; as property names, response codes or component
+// names they are ordinary entries whose values can hold references.
+
+// What kind of object is being walked: spec objects (documents, operations, parameters, media types...),
+// schemas, Example and Link objects, a map from names to one of those, or components' sections
+export type SpecContext =
+  | 'object' | 'schema' | 'example' | 'link'
+  | 'names:object' | 'names:schema' | 'names:example' | 'names:link'
+  | 'sections';
+
+// Keywords whose value is literal data, where a "$ref" key is not a reference. Swagger 2 parameters
+// and headers carry default and enum themselves; only in schemas is "examples" a list of values.
+const OBJECT_LITERALS = new Set(['example', 'x-example', 'x-examples', 'default', 'enum', 'const']);
+const SCHEMA_LITERALS = new Set([...OBJECT_LITERALS, 'examples']);
+
+// Keywords of spec objects whose value maps names of the spec author's choosing to objects
+const OBJECT_NAME_MAPS: Record<string, SpecContext> = {
+  paths: 'names:object',
+  webhooks: 'names:object',
+  callbacks: 'names:object',
+  responses: 'names:object',
+  parameters: 'names:object',
+  headers: 'names:object',
+  requestBodies: 'names:object',
+  securitySchemes: 'names:object',
+  securityDefinitions: 'names:object',
+  content: 'names:object',
+  encoding: 'names:object',
+  variables: 'names:object',
+  examples: 'names:example',
+  links: 'names:link',
+  definitions: 'names:schema',
+  schemas: 'names:schema',
+};
+
+const SCHEMA_NAME_MAPS = new Set(['properties', 'patternProperties', 'definitions', '$defs', 'dependentSchemas']);
+
+// The context of a child object, or null when the key holds literal data
+export function childContext(key: string, context: SpecContext): SpecContext | null {
+  switch (context) {
+    case 'sections':
+      return OBJECT_NAME_MAPS[key] || 'names:object';
+    case 'names:object':
+      return 'object';
+    case 'names:schema':
+      return 'schema';
+    case 'names:example':
+      return 'example';
+    case 'names:link':
+      return 'link';
+    case 'schema':
+      if (SCHEMA_LITERALS.has(key)) {
+        return null;
+      }
+      return SCHEMA_NAME_MAPS.has(key) ? 'names:schema' : 'schema';
+    case 'example':
+      // Example objects hold only strings and the literal value
+      return null;
+    case 'link':
+      // Link parameters and requestBody are literal values or runtime expressions
+      return key === 'server' ? 'object' : null;
+    default:
+      if (OBJECT_LITERALS.has(key)) {
+        return null;
+      }
+      if (key === 'schema') {
+        return 'schema';
+      }
+      if (key === 'components') {
+        return 'sections';
+      }
+      return OBJECT_NAME_MAPS[key] || 'object';
+  }
+}
+
+// Array items are what the array's key holds: parameter lists hold parameters, allOf holds schemas
+export function itemContext(context: SpecContext): SpecContext {
+  return context.startsWith('names:') ? context.slice('names:'.length) as SpecContext : context;
+}
+
+// True for contexts whose keys are names rather than keywords
+export function isNameContext(context: SpecContext): boolean {
+  return context === 'sections' || context.startsWith('names:');
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+// Calls visit on every keyword object outside literal data, with its JSON pointer from value
+export function visitSpecObjects(
+  value: any,
+  visit: (node: Record<string, any>, pointer: string) => void,
+  context: SpecContext = 'object',
+  pointer: string = ''
+): void {
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => visitSpecObjects(item, visit, itemContext(context), `${pointer}/${index}`));
+    return;
+  }
+  if (!value || typeof value !== 'object') {
+    return;
+  }
+  if (!isNameContext(context)) {
+    visit(value, pointer);
+  }
+  for (const [key, child] of Object.entries(value)) {
+    const next = childContext(key, context);
+    if (next) {
+      visitSpecObjects(child, visit, next, `${pointer}/${escapePointer(key)}`);
+    }
+  }
+}
+
+// Copies value, passing every keyword object outside literal data through transform after its children
+export function mapSpecObjects(value: any, transform: (node: Record<string, any>) => Record<string, any>, context: SpecContext = 'object'): any {
+  if (Array.isArray(value)) {
+    return value.map(item => mapSpecObjects(item, transform, itemContext(context)));
+  }
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  const result: Record<string, any> = {};
+  for (const [key, child] of Object.entries(value)) {
+    const next = childContext(key, context);
+    result[key] = next ? mapSpecObjects(child, transform, next) : child;
+  }
+  return isNameContext(context) ? result : transform(result);
+}
@@ -0,0 +1,296 @@
+import SwaggerParser from '@apidevtools/swagger-parser';
+import { visitSpecObjects } from './spec-refs.js';
+import { SwaggerDoc } from './swagger-fetcher.js';
+
+export type IssueSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: IssueSeverity;
+  source?: string;
+  pointer: string;
+  message: string;
+  snippet?: string;
+}
+
+export interface SourceValidation {
+  source?: string;
+  version: string;
+  valid: boolean;
+  errors: number;
+  warnings: number;
+  issues: ValidationIssue[];
+}
+
+export interface ValidationReport {
+  valid: boolean;
+  version: string;
+  errors: number;
+  warnings: number;
+  sources: Array<Omit<SourceValidation, 'issues'>>;
+  issues: ValidationIssue[];
+}
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'];
+const MAX_SNIPPET_LENGTH = 500;
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
+
+function unescapePointer(segment: string): string {
+  return decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+}
+
+export function detectVersion(doc: SwaggerDoc): string {
+  if (doc.openapi) {
+    return `OpenAPI ${doc.openapi}`;
+  }
+  if (doc.swagger) {
+    return `Swagger ${doc.swagger}`;
+  }
+  return 'unknown';
+}
+
+// Walks up to the nearest existing value so a pointer to a missing property still shows its parent
+function snippetAt(doc: any, pointer: string): string | undefined {
+  if (!pointer) {
+    return undefined;
+  }
+  const segments = pointer.split('/').slice(1).map(unescapePointer);
+  let current = doc;
+  for (const segment of segments) {
+    if (current === null || typeof current !== 'object' || !(segment in current)) {
+      break;
+    }
+    current = current[segment];
+  }
+  if (current === undefined) {
+    return undefined;
+  }
+  const text = JSON.stringify(current, null, 2);
+  return text.length > MAX_SNIPPET_LENGTH ? `${text.slice(0, MAX_SNIPPET_LENGTH)}...` : text;
+}
+
+// swagger-parser reports locations like "/paths/users/{id}/get/responses/200"; turn them into JSON pointers
+function toPointer(location: string): string {
+  const pathMatch = location.match(new RegExp(`^/paths(/.*?)(/(?:${HTTP_METHODS.join('|')})(?:/.*)?)?$`));
+  if (pathMatch) {
+    return `/paths/${escapePointer(pathMatch[1])}${pathMatch[2] || ''}`;
+  }
+  return location;
+}
+
+function ajvMessage(error: any): { pointer: string; message: string } {
+  const pointer = error.instancePath || '';
+  const params = error.params || {};
+  if (params.additionalProperty) {
+    return { pointer: `${pointer}/${escapePointer(params.additionalProperty)}`, message: `Unexpected property '${params.additionalProperty}'` };
+  }
+  if (params.missingProperty) {
+    return { pointer, message: `Missing required property '${params.missingProperty}'` };
+  }
+  if (params.allowedValues) {
+    return { pointer, message: `Must be one of ${JSON.stringify(params.allowedValues)}` };
+  }
+  return { pointer, message: error.message };
+}
+
+// Ajv reports a failure for every oneOf/anyOf branch; fold those into errors a person can act on
+function condenseAjvErrors(errors: any[]): any[] {
+  const pointers = errors.map(error => error.instancePath || '');
+  const hasSpecificError = (pointer: string) => errors.some((error, index) =>
+    !['oneOf', 'anyOf'].includes(error.keyword)
+      && error.params?.missingProperty !== '$ref'
+      && (pointers[index] === pointer || pointers[index].startsWith(`${pointer}/`))
+  );
+
+  const enums = new Map<string, any>();
+  const condensed: any[] = [];
+  for (const error of errors) {
+    const pointer = error.instancePath || '';
+    if ((['oneOf', 'anyOf'].includes(error.keyword) || error.params?.missingProperty === '$ref') && hasSpecificError(pointer)) {
+      continue;
+    }
+    if (error.keyword === 'enum') {
+      const merged = enums.get(pointer);
+      if (merged) {
+        merged.params.allowedValues.push(...error.params.allowedValues);
+        continue;
+      }
+      const copy = { ...error, params: { allowedValues: [...error.params.allowedValues] } };
+      enums.set(pointer, copy);
+      condensed.push(copy);
+      continue;
+    }
+    condensed.push(error);
+  }
+  return condensed;
+}
+
+function parserIssues(error: any): Array<{ pointer: string; message: string }> {
+  // Schema validation failures carry every Ajv error; keep one entry per pointer and message
+  if (Array.isArray(error?.details)) {
+    const seen = new Set<string>();
+    return condenseAjvErrors(error.details).map(ajvMessage).filter(issue => {
+      const key = `${issue.pointer} ${issue.message}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  const message = String(error?.message || error).replace(/^Validation failed\.\s*/, '');
+  const location = message.match(/(\/(?:paths|definitions)\/\S+?)(?=[\s,]|\.?$)/);
+  return [{ pointer: location ? toPointer(location[1]) : '', message }];
+}
+
+function findUnresolvedRefs(doc: any): Array<{ pointer: string; message: string }> {
+  const issues: Array<{ pointer: string; message: string }> = [];
+  visitSpecObjects(doc, (node, pointer) => {
+    if (typeof node.$ref === 'string' && node.$ref.startsWith('#') && !resolves(doc, node.$ref.slice(1))) {
+      issues.push({ pointer: `${pointer}/$ref`, message: `Reference ${node.$ref} does not resolve` });
+    }
+  });
+  return issues;
+}
+
+function resolves(doc: any, pointer: string): boolean {
+  let current = doc;
+  for (const segment of pointer.split('/').slice(1).map(unescapePointer)) {
+    if (current === null || typeof current !== 'object' || !(segment in current)) {
+      return false;
+    }
+    current = current[segment];
+  }
+  return true;
+}
+
+function replaceAt(doc: any, pointer: string, value: unknown): void {
+  const segments = pointer.split('/').slice(1).map(unescapePointer);
+  const last = segments.pop();
+  let current = doc;
+  for (const segment of segments) {
+    current = current?.[segment];
+  }
+  if (current && typeof current === 'object' && last !== undefined) {
+    current[last] = value;
+  }
+}
+
+// Checks swagger-parser leaves out: it only validates operation semantics for Swagger 2
+function lintOperations(doc: SwaggerDoc): Array<{ severity: IssueSeverity; pointer: string; message: string }> {
+  const issues: Array<{ severity: IssueSeverity; pointer: string; message: string }> = [];
+  const operationIds = new Map<string, string>();
+
+  for (const [path, pathItem] of Object.entries<any>(doc.paths || {})) {
+    if (!pathItem || typeof pathItem !== 'object') {
+      continue;
+    }
+    const pathParameters: any[] = Array.isArray(pathItem.parameters) ? pathItem.parameters : [];
+
+    for (const method of HTTP_METHODS) {
+      const operation = pathItem[method];
+      if (!operation || typeof operation !== 'object') {
+        continue;
+      }
+      const pointer = `/paths/${escapePointer(path)}/${method}`;
+
+      if (!operation.operationId) {
+        issues.push({ severity: 'warning', pointer, message: 'Operation has no operationId' });
+      } else if (doc.openapi && operationIds.has(operation.operationId)) {
+        issues.push({
+          severity: 'error',
+          pointer: `${pointer}/operationId`,
+          message: `Duplicate operationId '${operation.operationId}' (also used by ${operationIds.get(operation.operationId)})`,
+        });
+      } else {
+        operationIds.set(operation.operationId, `${method.toUpperCase()} ${path}`);
+      }
+
+      const responseCodes = Object.keys(operation.responses || {});
+      if (responseCodes.length > 0 && !responseCodes.some(code => /^[23]/.test(code) || code === 'default')) {
+        issues.push({ severity: 'warning', pointer: `${pointer}/responses`, message: 'Operation declares no success or default response' });
+      }
+
+      if (doc.openapi) {
+        const parameters = [...pathParameters, ...(Array.isArray(operation.parameters) ? operation.parameters : [])];
+        const declared = new Set(parameters.filter(parameter => parameter?.in === 'path').map(parameter => parameter.name));
+        const hasRefs = parameters.some(parameter => parameter?.$ref);
+        const templated = Array.from(path.matchAll(/\{([^}]+)\}/g), match => match[1]);
+        const missing = templated.filter(name => !declared.has(name));
+        if (missing.length > 0 && !hasRefs) {
+          issues.push({ severity: 'error', pointer, message: `Path parameter(s) ${missing.join(', ')} are not declared` });
+        }
+      }
+    }
+  }
+  return issues;
+}
+
+export async function validateSpecDocument(doc: SwaggerDoc, source?: string): Promise<SourceValidation> {
+  // The fetcher tags per-source docs with their name, which is not part of the spec
+  const { source: _tag, ...raw } = doc as SwaggerDoc & { source?: string };
+  const found: Array<{ severity: IssueSeverity; pointer: string; message: string }> = [];
+
+  const unresolved = findUnresolvedRefs(raw);
+  found.push(...unresolved.map(issue => ({ severity: 'error' as const, ...issue })));
+
+  // swagger-parser dereferences in place, so give it a copy. Broken refs are already reported;
+  // blanking them lets the parser get past dereferencing and report schema errors too.
+  const copy = structuredClone(raw);
+  for (const issue of unresolved) {
+    replaceAt(copy, issue.pointer.replace(/\/\$ref$/, ''), {});
+  }
+  try {
+    await SwaggerParser.validate(copy as any);
+  } catch (error: any) {
+    found.push(...parserIssues(error).map(issue => ({ severity: 'error' as const, ...issue })));
+  }
+
+  found.push(...lintOperations(raw));
+
+  const issues = found.map(issue => ({
+    severity: issue.severity,
+    ...(source ? { source } : {}),
+    pointer: issue.pointer,
+    message: issue.message,
+    snippet: snippetAt(raw, issue.pointer),
+  }));
+  const errors = issues.filter(issue => issue.severity === 'error').length;
+
+  return {
+    ...(source ? { source } : {}),
+    version: detectVersion(raw),
+    valid: errors === 0,
+    errors,
+    warnings: issues.length - errors,
+    issues,
+  };
+}
+
+export function unloadableSource(source: string): SourceValidation {
+  return {
+    source,
+    version: 'unknown',
+    valid: false,
+    errors: 1,
+    warnings: 0,
+    issues: [{ severity: 'error', source, pointer: '', message: 'Source could not be fetched or parsed' }],
+  };
+}
+
+export function summarizeValidation(results: SourceValidation[]): ValidationReport {
+  const versions = Array.from(new Set(results.map(result => result.version).filter(version => version !== 'unknown')));
+  const errors = results.reduce((total, result) => total + result.errors, 0);
+
+  return {
+    valid: errors === 0,
+    version: versions.length > 0 ? versions.join(', ') : 'unknown',
+    errors,
+    warnings: results.reduce((total, result) => total + result.warnings, 0),
+    sources: results.map(({ issues, ...summary }) => summary),
+    issues: results.flatMap(result => result.issues),
+  };
+}
@@ -0,0 +1,183 @@
+import { createHash } from 'crypto';
+import { Config } from './config.js';
+import { SpecDiffer } from './spec-diff.js';
+import { FetchedSpec, SwaggerDoc, SwaggerFetcher } from './swagger-fetcher.js';
+import { LoadedSpec, SpecWorkspace } from './workspace.js';
+
+export interface SpecChangeSummary {
+  spec: string;
+  location: string;
+  previousHash: string;
+  hash: string;
+  addedOperations: string[];
+  removedOperations: string[];
+  otherChanges: number; // Changes to parameters, bodies, responses, schemas and info
+  breakingChanges: number;
+}
+
+export interface WatchedSpecStatus {
+  spec: string;
+  location: string;
+  hash: string;
+  lastCheckedAt?: string;
+  lastChangedAt?: string;
+  checks: number;
+  changes: number;
+  lastChange?: SpecChangeSummary;
+  lastError?: string; // From the most recent check only; the loaded doc is kept when a check fails
+}
+
+export interface WatchStatus {
+  enabled: boolean;
+  interval: number;
+  polling: boolean;
+  lastPollAt?: string;
+  specs: WatchedSpecStatus[];
+}
+
+// Content hash of the normalized doc; fetch times and cache headers don't affect it
+export function hashDoc(doc: SwaggerDoc): string {
+  return createHash('sha256').update(JSON.stringify(doc)).digest('hex').slice(0, 16);
+}
+
+// Re-fetches every loaded spec on an interval and swaps in docs whose content changed
+export class SpecWatcher {
+  private statuses: Map<string, WatchedSpecStatus> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private lastPollAt?: number;
+
+  constructor(
+    private config: Config,
+    private workspace: SpecWorkspace,
+    private fetcher: SwaggerFetcher,
+    private onChange: (change: SpecChangeSummary) => Promise<void>,
+    private onError: (spec: LoadedSpec, error: Error) => Promise<void>,
+  ) {}
+
+  start(): void {
+    if (this.timer || this.config.watchInterval <= 0) {
+      return;
+    }
+    console.error(`[SpecWatcher] Checking loaded specs for changes every ${this.config.watchInterval} ms`);
+    this.timer = setInterval(() => {
+      this.poll().catch(error => console.error('[SpecWatcher] Poll failed:', error));
+    }, this.config.watchInterval);
+    // Polling alone should not keep the process alive
+    this.timer.unref();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Skipped while a previous poll is still running, so slow upstreams don't pile up requests
+  async poll(): Promise<SpecChangeSummary[]> {
+    if (this.polling) {
+      return [];
+    }
+    this.polling = true;
+    const changes: SpecChangeSummary[] = [];
+    try {
+      for (const spec of this.workspace.list()) {
+        const change = await this.check(spec);
+        if (change) {
+          changes.push(change);
+        }
+      }
+      // Specs unloaded since the last poll are no longer watched
+      const loaded = new Set(this.workspace.list().map(spec => spec.name));
+      for (const name of this.statuses.keys()) {
+        if (!loaded.has(name)) {
+          this.statuses.delete(name);
+        }
+      }
+    } finally {
+      this.polling = false;
+      this.lastPollAt = Date.now();
+    }
+    return changes;
+  }
+
+  getStatus(): WatchStatus {
+    const specs = this.workspace.list().map(spec => this.statuses.get(spec.name) || this.initialStatus(spec));
+    return {
+      enabled: this.timer !== null,
+      interval: this.config.watchInterval,
+      polling: this.polling,
+      ...(this.lastPollAt ? { lastPollAt: new Date(this.lastPollAt).toISOString() } : {}),
+      specs,
+    };
+  }
+
+  private initialStatus(spec: LoadedSpec): WatchedSpecStatus {
+    return { spec: spec.name, location: spec.location, hash: hashDoc(spec.doc), checks: 0, changes: 0 };
+  }
+
+  private async check(spec: LoadedSpec): Promise<SpecChangeSummary | null> {
+    const previous = this.statuses.get(spec.name);
+    // A spec re-fetched or replaced by hand since the last poll starts a fresh history
+    const status = previous && previous.location === spec.location && previous.hash === hashDoc(spec.doc)
+      ? previous
+      : { ...this.initialStatus(spec), checks: previous?.checks || 0, changes: previous?.changes || 0 };
+    this.statuses.set(spec.name, status);
+    status.lastCheckedAt = new Date().toISOString();
+    status.checks++;
+
+    let fetched: FetchedSpec;
+    try {
+      // Revalidates with ETag/Last-Modified where the server supports it instead of serving the TTL cache
+      await this.fetcher.invalidate(spec.location);
+      fetched = await this.fetcher.fetchSwaggerDoc(spec.location);
+    } catch (error) {
+      status.lastError = error instanceof Error ? error.message : String(error);
+      await this.onError(spec, error instanceof Error ? error : new Error(String(error)));
+      return null;
+    }
+    delete status.lastError;
+
+    const { doc } = fetched;
+    const hash = hashDoc(doc);
+    if (hash === status.hash) {
+      return null;
+    }
+
+    const updated: LoadedSpec = {
+      ...spec,
+      doc,
+      sources: fetched.sources,
+      sourceDocs: new Map(fetched.sourceDocs),
+      conflicts: fetched.conflicts,
+      loadedAt: Date.now(),
+    };
+    if (!this.workspace.replace(spec, updated)) {
+      // Unloaded or re-fetched while this check ran; the next poll looks at the new state
+      return null;
+    }
+
+    const diff = new SpecDiffer(this.fetcher).diff(spec.doc, doc);
+    const operationChanges = diff.changes.filter(change => change.kind === 'operation');
+    const change: SpecChangeSummary = {
+      spec: spec.name,
+      location: spec.location,
+      previousHash: status.hash,
+      hash,
+      addedOperations: operationChanges.filter(change => change.type === 'added').map(change => change.location),
+      removedOperations: operationChanges.filter(change => change.type === 'removed').map(change => change.location),
+      otherChanges: diff.changes.length - operationChanges.length,
+      breakingChanges: diff.summary.breaking,
+    };
+
+    status.hash = hash;
+    status.lastChangedAt = new Date().toISOString();
+    status.changes++;
+    status.lastChange = change;
+    console.error(`[SpecWatcher] '${spec.name}' changed: +${change.addedOperations.length} -${change.removedOperations.length} operations, ${change.otherChanges} other changes`);
+
+    await this.onChange(change);
+    return change;
+  }
+}
@@ -1,7 +1,16 @@
-import SwaggerParser from '@apidevtools/swagger-parser';
+import axios from 'axios';
+import { readdir, readFile, stat } from 'fs/promises';
+import { join, resolve } from 'path';
+import { fileURLToPath } from 'url';
 import * as YAML from 'yaml';
 import { AuthManager } from './auth.js';
 import { Config } from './config.js';
+import { DocumentCache } from './document-cache.js';
+import { FetchedDocument, SpecDiscovery } from './spec-discovery.js';
+import { EndpointHit, SchemaHit, SearchIndex } from './search-index.js';
+import { MergeConflict, mergeSources } from './spec-merger.js';
+import { NORMALIZED_VERSION, normalizeSpec, originalDocument } from './spec-normalizer.js';
+import { SourceValidation, summarizeValidation, unloadableSource, validateSpecDocument, ValidationReport } from './spec-validator.js';
 
 export interface SwaggerDoc {
   openapi?: string;
@@ -11,12 +20,26 @@ export interface SwaggerDoc {
     version: string;
     description?: string;
   };
+  servers?: Array<{
+    url: string;
+    description?: string;
+    variables?: Record<string, { default: string; enum?: string[] }>;
+  }>;
+  host?: string;
+  basePath?: string;
+  schemes?: string[];
+  consumes?: string[];
+  produces?: string[];
   paths: Record<string, any>;
   components?: {
     schemas?: Record<string, any>;
+    parameters?: Record<string, any>;
+    requestBodies?: Record<string, any>;
+    responses?: Record<string, any>;
     securitySchemes?: Record<string, any>;
   };
   definitions?: Record<string, any>;
+  security?: Array<Record<string, string[]>>;
   tags?: Array<{
     name: string;
     description?: string;
@@ -43,49 +66,109 @@ export interface EndpointInfo {
   summary?: string;
   description?: string;
   operationId?: string;
+  source?: string;
+  deprecated?: boolean;
   parameters?: any[];
   requestBody?: any;
   responses?: Record<string, any>;
   tags?: string[];
+  security?: Array<Record<string, string[]>>; // The operation's own requirements, else the document's
+}
+
+// A fetched document with the sources it was combined from; single-document specs have none
+export interface FetchedSpec {
+  doc: SwaggerDoc;
+  sources: Array<{ name: string }>;
+  sourceDocs: Map<string, CombinedSwaggerDoc>;
+  conflicts: MergeConflict[];
+}
+
+interface CacheEntry {
+  spec: FetchedSpec;
+  timestamp: number;
+}
+
+const SPEC_FILE_PATTERN = /\.(json|ya?ml)$/i;
+
+// Network errors, timeouts and server errors; a 4xx answer is the server's real reply
+function isUnavailable(error: unknown): boolean {
+  return axios.isAxiosError(error) && (!error.response || error.response.status >= 500);
+}
+
+function singleDocument(doc: SwaggerDoc): FetchedSpec {
+  return { doc, sources: [], sourceDocs: new Map(), conflicts: [] };
 }
 
 export class SwaggerFetcher {
   private authManager: AuthManager;
-  private cache: Map<string, { data: SwaggerDoc; timestamp: number }> = new Map();
-  private combinedDocs: Map<string, CombinedSwaggerDoc> = new Map();
-  private swaggerConfig: SwaggerConfig | null = null;
+  private cache: Map<string, CacheEntry> = new Map();
+  // Each fetch produces new doc objects, so indexes are built once per set of fetched docs searched
+  // together, and dropped with the first of them
+  private searchIndexes: WeakMap<SwaggerDoc, Map<string, { docs: SwaggerDoc[]; index: SearchIndex }>> = new WeakMap();
 
-  constructor(private config: Config) {
+  constructor(private config: Config, private documentCache: DocumentCache = new DocumentCache(config.cacheDir)) {
     this.authManager = new AuthManager(config);
   }
 
-  private async fetchSwaggerConfig(baseUrl: string): Promise<SwaggerConfig> {
+  // Answers from the document cache while fresh, then revalidates with ETag/Last-Modified.
+  // A cached copy is served when the server can't be reached or fails, however old it is; it is
+  // not served when the server answers that the document is gone or forbidden.
+  private async fetchDocument(url: string, source?: string): Promise<FetchedDocument> {
+    const cached = await this.documentCache.get(url);
+    if (cached && Date.now() - cached.fetchedAt < this.config.cacheTTL) {
+      console.error(`[SwaggerFetcher] Using cached document for ${url}`);
+      return cached;
+    }
+
+    const headers: Record<string, string> = {};
+    if (cached?.etag) {
+      headers['If-None-Match'] = cached.etag;
+    }
+    if (cached?.lastModified) {
+      headers['If-Modified-Since'] = cached.lastModified;
+    }
+
+    let response;
     try {
-      const configUrl = `${baseUrl}/swagger-config.json`;
-      console.error(`[SwaggerFetcher] Fetching config from: ${configUrl}`);
-      const configData = await this.authManager.authenticatedRequest(configUrl);
-      
-      // Parse the JSON if it's a string
-      let parsedConfig: SwaggerConfig;
-      if (typeof configData === 'string') {
-        parsedConfig = JSON.parse(configData);
-      } else {
-        parsedConfig = configData;
-      }
-      
-      console.error(`[SwaggerFetcher] Config fetched successfully:`, JSON.stringify(parsedConfig, null, 2));
-      return parsedConfig;
+      response = await this.authManager.request({
+        method: 'GET',
+        url,
+        headers,
+        // Force response to be text to avoid axios auto-parsing
+        responseType: 'text',
+        validateStatus: status => (status >= 200 && status < 300) || (status === 304 && !!cached),
+      }, source);
     } catch (error) {
-      console.error(`[SwaggerFetcher] Failed to fetch swagger-config.json from ${baseUrl}:`, error);
-      throw new Error(`Failed to fetch swagger-config.json: ${error}`);
+      if (cached && isUnavailable(error)) {
+        console.error(`[SwaggerFetcher] ${url} is unavailable, serving cached copy from ${new Date(cached.fetchedAt || Date.now()).toISOString()}: ${error}`);
+        await this.documentCache.set({ ...cached, lastError: String(error) });
+        return cached;
+      }
+      throw error;
+    }
+
+    if (response.status === 304 && cached) {
+      console.error(`[SwaggerFetcher] ${url} not modified`);
+      await this.documentCache.set({ ...cached, fetchedAt: Date.now(), lastError: undefined });
+      return cached;
     }
+
+    const document = {
+      url,
+      body: typeof response.data === 'string' ? response.data : JSON.stringify(response.data),
+      contentType: response.headers['content-type'],
+      etag: response.headers['etag'],
+      lastModified: response.headers['last-modified'],
+      fetchedAt: Date.now(),
+    };
+    await this.documentCache.set(document);
+    return document;
   }
 
-  private async fetchIndividualSwaggerDoc(baseUrl: string, path: string): Promise<SwaggerDoc> {
+  private async fetchIndividualSwaggerDoc(fullUrl: string, source?: string): Promise<SwaggerDoc> {
     try {
-      const fullUrl = `${baseUrl}/${path}`;
       console.error(`[SwaggerFetcher] Fetching individual doc from: ${fullUrl}`);
-      const docData = await this.authManager.authenticatedRequest(fullUrl);
+      const docData = (await this.fetchDocument(fullUrl, source)).body;
       console.error(`[SwaggerFetcher] Individual doc fetched, parsing...`);
       
       // Parse the data based on content type
@@ -93,7 +176,7 @@ export class SwaggerFetcher {
       if (typeof docData === 'string') {
         // Check if the response is empty or just whitespace
         if (!docData.trim()) {
-          console.error(`[SwaggerFetcher] Empty response for ${path}, skipping`);
+          console.error(`[SwaggerFetcher] Empty response for ${fullUrl}, skipping`);
           throw new Error('Empty response');
         }
         // Try to parse as YAML first, then JSON
@@ -114,182 +197,248 @@ export class SwaggerFetcher {
       }
       
       // Just use the parsed data without additional validation
-      const parsedDoc = parsedData as SwaggerDoc;
-      console.error(`[SwaggerFetcher] Individual doc validated successfully for ${path}`);
+      const parsedDoc = normalizeSpec(parsedData as SwaggerDoc);
+      console.error(`[SwaggerFetcher] Individual doc validated successfully for ${fullUrl}`);
       return parsedDoc;
     } catch (error) {
-      console.error(`[SwaggerFetcher] Failed to fetch individual Swagger doc from ${path}:`, error);
-      throw new Error(`Failed to fetch individual Swagger doc from ${path}: ${error}`);
+      console.error(`[SwaggerFetcher] Failed to fetch individual Swagger doc from ${fullUrl}:`, error);
+      throw new Error(`Failed to fetch individual Swagger doc from ${fullUrl}: ${error}`);
+    }
+  }
+
+  private isLocalSource(location: string): boolean {
+    return location.startsWith('file://') || !/^https?:\/\//i.test(location);
+  }
+
+  private resolveLocalPath(location: string): string {
+    return location.startsWith('file://') ? fileURLToPath(location) : resolve(location);
+  }
+
+  private async readLocalSwaggerDoc(filePath: string): Promise<SwaggerDoc> {
+    console.error(`[SwaggerFetcher] Reading local doc from: ${filePath}`);
+    const content = await readFile(filePath, 'utf-8');
+    if (!content.trim()) {
+      throw new Error(`Empty file: ${filePath}`);
+    }
+
+    // YAML is a superset of JSON, so this covers both formats
+    const parsedData = YAML.parse(content);
+    if (!parsedData || typeof parsedData !== 'object' || (!parsedData.openapi && !parsedData.swagger)) {
+      throw new Error(`${filePath} is not a Swagger/OpenAPI document`);
     }
+    return normalizeSpec(parsedData as SwaggerDoc);
   }
 
-  async fetchSwaggerDoc(url: string): Promise<SwaggerDoc> {
+  private async loadLocalSource(location: string): Promise<FetchedSpec> {
+    const localPath = this.resolveLocalPath(location);
+    const stats = await stat(localPath);
+
+    if (!stats.isDirectory()) {
+      return singleDocument(await this.readLocalSwaggerDoc(localPath));
+    }
+
+    // Treat every spec file in the directory as a separate API source
+    const files = (await readdir(localPath)).filter(file => SPEC_FILE_PATTERN.test(file)).sort();
+    if (files.length === 0) {
+      throw new Error(`No .json, .yaml or .yml files found in ${localPath}`);
+    }
+    console.error(`[SwaggerFetcher] Found ${files.length} spec files in ${localPath}`);
+
+    const urls = files.map(file => ({
+      url: join(localPath, file),
+      name: file.replace(SPEC_FILE_PATTERN, ''),
+    }));
+    return this.combineSources(urls, (source) => this.readLocalSwaggerDoc(source.url));
+  }
+
+  // Everything about a fetch is returned rather than kept on the fetcher, so concurrent fetches can't mix sources
+  async fetchSwaggerDoc(url: string): Promise<FetchedSpec> {
     console.error(`[SwaggerFetcher] Starting fetchSwaggerDoc for URL: ${url}`);
     
     const cached = this.cache.get(url);
     
     if (cached && Date.now() - cached.timestamp < this.config.cacheTTL) {
       console.error(`[SwaggerFetcher] Returning cached data for ${url}`);
-      return cached.data;
+      return cached.spec;
     }
 
     try {
-      // Check if this is a direct Swagger JSON URL
-      if (url.endsWith('.json') || url.endsWith('.yaml') || url.endsWith('.yml')) {
-        console.error(`[SwaggerFetcher] Detected direct Swagger file URL, fetching directly`);
-        try {
-          const docData = await this.authManager.authenticatedRequest(url);
-          console.error(`[SwaggerFetcher] Direct Swagger doc fetched, parsing...`);
-          
-          // Parse the data based on content type
-          let parsedData: any;
-          if (typeof docData === 'string') {
-            // Try to parse as YAML first, then JSON
-            try {
-              parsedData = YAML.parse(docData);
-              console.error(`[SwaggerFetcher] Parsed as YAML`);
-            } catch {
-              try {
-                parsedData = JSON.parse(docData);
-                console.error(`[SwaggerFetcher] Parsed as JSON`);
-              } catch {
-                throw new Error('Unable to parse response as YAML or JSON');
-              }
-            }
-          } else {
-            parsedData = docData;
-          }
-          
-          // Just use the parsed data without additional validation
-      const parsedDoc = parsedData as SwaggerDoc;
-          console.error(`[SwaggerFetcher] Direct Swagger doc validated successfully`);
-          
-          // Cache the result
-          this.cache.set(url, { data: parsedDoc, timestamp: Date.now() });
-          
-          return parsedDoc;
-        } catch (error) {
-          console.error(`[SwaggerFetcher] Failed to fetch direct Swagger doc:`, error);
-          throw new Error(`Failed to fetch Swagger documentation: ${error}`);
-        }
+      // Local files and directories are read from disk without authentication
+      if (this.isLocalSource(url)) {
+        console.error(`[SwaggerFetcher] Detected local source, reading from disk`);
+        const localSpec = await this.loadLocalSource(url);
+        this.cacheSpec(url, localSpec);
+        return localSpec;
       }
-      
-      // Extract base URL (remove path after domain)
-      const urlObj = new URL(url);
-      const baseUrl = `${urlObj.protocol}//${urlObj.host}`;
-      console.error(`[SwaggerFetcher] Extracted base URL: ${baseUrl} from ${url}`);
-      
-      // Step 1: Fetch swagger-config.json
-      console.error(`[SwaggerFetcher] Step 1: Fetching swagger-config.json`);
-      this.swaggerConfig = await this.fetchSwaggerConfig(baseUrl);
-      
-      if (!this.swaggerConfig.urls || this.swaggerConfig.urls.length === 0) {
-        console.error(`[SwaggerFetcher] No API URLs found in swagger-config.json`);
-        throw new Error('No API URLs found in swagger-config.json');
-      }
-      
-      console.error(`[SwaggerFetcher] Found ${this.swaggerConfig.urls.length} API URLs to fetch`);
-      
-      // Step 2: Fetch all individual API docs
-      console.error(`[SwaggerFetcher] Step 2: Fetching all individual API docs`);
-      this.combinedDocs.clear();
-      const allPaths: Record<string, any> = {};
-      const allSchemas: Record<string, any> = {};
-      const allTags: Array<{ name: string; description?: string }> = [];
-      const tagSet = new Set<string>();
-      
-      for (const apiConfig of this.swaggerConfig.urls) {
-        console.error(`[SwaggerFetcher] Processing API config: ${apiConfig.name} -> ${apiConfig.url}`);
-        try {
-          const doc = await this.fetchIndividualSwaggerDoc(baseUrl, apiConfig.url);
-          
-          // Store individual doc with source info
-          const docWithSource: CombinedSwaggerDoc = {
-            ...doc,
-            source: apiConfig.name
-          };
-          this.combinedDocs.set(apiConfig.name, docWithSource);
-          console.error(`[SwaggerFetcher] Stored doc for ${apiConfig.name} with ${Object.keys(doc.paths || {}).length} paths`);
-        
-        // Merge paths
-        const pathCount = Object.keys(doc.paths).length;
-        console.error(`[SwaggerFetcher] Merging ${pathCount} paths from ${apiConfig.name}`);
-        for (const [path, pathItem] of Object.entries(doc.paths)) {
-          allPaths[path] = pathItem;
-        }
-        
-        // Merge schemas
-        if (doc.components?.schemas) {
-          const schemaCount = Object.keys(doc.components.schemas).length;
-          console.error(`[SwaggerFetcher] Merging ${schemaCount} schemas from components for ${apiConfig.name}`);
-          Object.assign(allSchemas, doc.components.schemas);
-        } else if (doc.definitions) {
-          const schemaCount = Object.keys(doc.definitions).length;
-          console.error(`[SwaggerFetcher] Merging ${schemaCount} schemas from definitions for ${apiConfig.name}`);
-          Object.assign(allSchemas, doc.definitions);
-        }
-        
-        // Merge tags
-        if (doc.tags) {
-          console.error(`[SwaggerFetcher] Merging ${doc.tags.length} tags from ${apiConfig.name}`);
-          for (const tag of doc.tags) {
-            if (!tagSet.has(tag.name)) {
-              tagSet.add(tag.name);
-              allTags.push(tag);
-            }
-          }
-        }
-        } catch (error) {
-          console.error(`[SwaggerFetcher] Failed to fetch ${apiConfig.name}: ${error}`);
-          // Continue with other docs
-        }
+
+      // Remote URLs may be a spec, a swagger-config, or a Swagger UI page pointing at either
+      const discovered = await new SpecDiscovery(documentUrl => this.fetchDocument(documentUrl)).discover(url);
+
+      if (discovered.kind === 'spec') {
+        console.error(`[SwaggerFetcher] Found Swagger doc at ${discovered.url}`);
+        const spec = singleDocument(normalizeSpec(discovered.doc));
+        this.cacheSpec(url, spec);
+        return spec;
       }
+
+      console.error(`[SwaggerFetcher] Found swagger-config at ${discovered.url} with ${discovered.urls.length} API URLs to fetch`);
+      const combined = await this.combineSources(
+        discovered.urls,
+        (apiConfig) => this.fetchIndividualSwaggerDoc(apiConfig.url, apiConfig.name)
+      );
       
-      // Create combined swagger doc
-      console.error(`[SwaggerFetcher] Creating combined doc with ${Object.keys(allPaths).length} total paths, ${Object.keys(allSchemas).length} schemas, ${allTags.length} tags`);
-      const firstDoc = this.combinedDocs.values().next().value;
-      const combinedDoc: SwaggerDoc = {
-        openapi: firstDoc?.openapi,
-        swagger: firstDoc?.swagger,
-        info: {
-          title: 'Combined API Documentation',
-          version: '1.0.0',
-          description: `Combined documentation from ${this.swaggerConfig.urls.length} API sources`
-        },
-        paths: allPaths,
-        components: {
-          schemas: allSchemas,
-          securitySchemes: firstDoc?.components?.securitySchemes
-        },
-        tags: allTags
-      };
-      console.error(`[SwaggerFetcher] Combined doc created successfully`);
-      
-      this.cache.set(url, {
-        data: combinedDoc,
-        timestamp: Date.now(),
-      });
+      this.cacheSpec(url, combined);
       console.error(`[SwaggerFetcher] Cached combined doc for ${url}`);
 
-      return combinedDoc;
+      return combined;
     } catch (error) {
       console.error(`[SwaggerFetcher] Error in fetchSwaggerDoc:`, error);
       throw new Error(`Failed to fetch Swagger documentation: ${error}`);
     }
   }
 
-  async validateSwaggerDoc(url: string): Promise<boolean> {
-    try {
-      const doc = await this.fetchSwaggerDoc(url);
-      await SwaggerParser.validate(doc as any);
-      return true;
-    } catch (error) {
-      return false;
+  private cacheSpec(url: string, spec: FetchedSpec): void {
+    this.cache.set(url, { spec, timestamp: Date.now() });
+  }
+
+  private async combineSources(
+    sources: Array<{ url: string; name: string }>,
+    loadDoc: (source: { url: string; name: string }) => Promise<SwaggerDoc>
+  ): Promise<FetchedSpec> {
+    const sourceDocs = new Map<string, CombinedSwaggerDoc>();
+    // Sources are fetched in parallel and merged in their listed order
+    const results = await Promise.allSettled(sources.map(apiConfig => {
+      console.error(`[SwaggerFetcher] Processing API config: ${apiConfig.name} -> ${apiConfig.url}`);
+      return loadDoc(apiConfig);
+    }));
+
+    const loaded: Array<{ name: string; doc: SwaggerDoc }> = [];
+    for (const [index, apiConfig] of sources.entries()) {
+      const result = results[index];
+      if (result.status === 'rejected') {
+        console.error(`[SwaggerFetcher] Failed to fetch ${apiConfig.name}: ${result.reason}`);
+        // Continue with other docs
+        continue;
+      }
+      const doc = result.value;
+
+      // Store individual doc with source info
+      const docWithSource: CombinedSwaggerDoc = {
+        ...doc,
+        source: apiConfig.name
+      };
+      sourceDocs.set(apiConfig.name, docWithSource);
+      loaded.push({ name: apiConfig.name, doc });
+      console.error(`[SwaggerFetcher] Stored doc for ${apiConfig.name} with ${Object.keys(doc.paths || {}).length} paths`);
     }
+
+    const merged = mergeSources(loaded);
+    if (merged.conflicts.length > 0) {
+      console.error(`[SwaggerFetcher] Resolved ${merged.conflicts.length} conflicts between sources`);
+    }
+
+    // Create combined swagger doc
+    const schemaCount = Object.keys(merged.components.schemas || {}).length;
+    console.error(`[SwaggerFetcher] Creating combined doc with ${Object.keys(merged.paths).length} total paths, ${schemaCount} schemas, ${merged.tags.length} tags`);
+    const firstDoc = loaded[0]?.doc;
+    const combinedDoc: SwaggerDoc = {
+      openapi: firstDoc?.openapi || NORMALIZED_VERSION,
+      info: {
+        title: 'Combined API Documentation',
+        version: '1.0.0',
+        description: `Combined documentation from ${sources.length} API sources`
+      },
+      paths: merged.paths,
+      components: {
+        schemas: {},
+        ...merged.components,
+      },
+      tags: merged.tags
+    };
+    console.error(`[SwaggerFetcher] Combined doc created successfully`);
+    
+    return {
+      doc: combinedDoc,
+      sources: sources.map(source => ({ name: source.name })),
+      sourceDocs,
+      conflicts: merged.conflicts,
+    };
+  }
+
+  getCachedDoc(url: string): SwaggerDoc | undefined {
+    return this.cache.get(url)?.spec.doc;
+  }
+
+  // Drops the parsed doc and makes the raw documents behind it revalidate on the next fetch
+  async invalidate(url: string): Promise<void> {
+    this.cache.delete(url);
+    await this.documentCache.expire(this.cachePrefix(url));
+  }
+
+  async clearCache(url?: string): Promise<{ parsed: string[]; documents: string[] }> {
+    const prefix = url ? this.cachePrefix(url) : undefined;
+    const parsed = Array.from(this.cache.keys()).filter(key => !prefix || key === url || key.startsWith(prefix));
+    for (const key of parsed) {
+      this.cache.delete(key);
+    }
+    const documents = await this.documentCache.clear(prefix);
+    return { parsed, documents };
+  }
+
+  async getCacheStatus(): Promise<Record<string, any>> {
+    const now = Date.now();
+    const { cacheTTL } = this.config;
+    const documents = await this.documentCache.list();
+
+    return {
+      ttl: cacheTTL,
+      directory: this.documentCache.location || null,
+      parsed: Array.from(this.cache.entries()).map(([url, entry]) => ({
+        url,
+        cachedAt: new Date(entry.timestamp).toISOString(),
+        fresh: now - entry.timestamp < cacheTTL,
+        sources: Array.from(entry.spec.sourceDocs.keys()),
+      })),
+      documents: documents.map(entry => ({
+        url: entry.url,
+        fetchedAt: entry.fetchedAt ? new Date(entry.fetchedAt).toISOString() : null,
+        fresh: now - entry.fetchedAt < cacheTTL,
+        size: entry.body.length,
+        etag: entry.etag,
+        lastModified: entry.lastModified,
+        lastError: entry.lastError,
+      })),
+    };
+  }
+
+  // Multi-source specs are cached per document under the server's origin
+  private cachePrefix(url: string): string {
+    return /^https?:\/\//i.test(url) ? new URL(url).origin : url;
+  }
+
+  // Multi-source setups are validated source by source, since the merged doc is not a spec anyone wrote.
+  // Validation always runs against the documents as published, not their normalized form.
+  async validateSwaggerDoc(url: string): Promise<ValidationReport> {
+    const { doc, sources, sourceDocs } = await this.fetchSwaggerDoc(url);
+
+    if (sources.length === 0) {
+      return summarizeValidation([await validateSpecDocument(originalDocument(doc))]);
+    }
+
+    const results: SourceValidation[] = [];
+    for (const source of sources) {
+      const sourceDoc = sourceDocs.get(source.name);
+      results.push(sourceDoc
+        ? await validateSpecDocument(originalDocument(sourceDoc), source.name)
+        : unloadableSource(source.name));
+    }
+    return summarizeValidation(results);
   }
 
   getEndpoints(swaggerDoc: SwaggerDoc): EndpointInfo[] {
     const endpoints: EndpointInfo[] = [];
+    // Combined docs tag each operation with its source; per-source docs carry it on the doc
+    const docSource = (swaggerDoc as CombinedSwaggerDoc).source;
 
     for (const [path, pathItem] of Object.entries(swaggerDoc.paths)) {
       for (const [method, operation] of Object.entries(pathItem as any)) {
@@ -301,10 +450,13 @@ export class SwaggerFetcher {
             summary: op.summary,
             description: op.description,
             operationId: op.operationId,
+            source: op['x-source'] || docSource,
+            deprecated: op.deprecated,
             parameters: op.parameters,
             requestBody: op.requestBody,
             responses: op.responses,
             tags: op.tags,
+            security: op.security ?? swaggerDoc.security,
           });
         }
       }
@@ -313,6 +465,20 @@ export class SwaggerFetcher {
     return endpoints;
   }
 
+  findEndpoint(swaggerDoc: SwaggerDoc, operation: { operationId?: string; method?: string; path?: string }): EndpointInfo | undefined {
+    const endpoints = this.getEndpoints(swaggerDoc);
+
+    if (operation.operationId) {
+      return endpoints.find(endpoint => endpoint.operationId === operation.operationId);
+    }
+    if (operation.method && operation.path) {
+      const method = operation.method.toUpperCase();
+      return endpoints.find(endpoint => endpoint.method === method && endpoint.path === operation.path);
+    }
+
+    throw new Error('Either operationId or both method and path must be provided');
+  }
+
   getSchemas(swaggerDoc: SwaggerDoc): Record<string, any> {
     if (swaggerDoc.openapi) {
       return swaggerDoc.components?.schemas || {};
@@ -328,32 +494,35 @@ export class SwaggerFetcher {
     );
   }
 
-  searchEndpoints(swaggerDoc: SwaggerDoc, query: string): EndpointInfo[] {
-    const allEndpoints = this.getEndpoints(swaggerDoc);
-    const lowerQuery = query.toLowerCase();
-    
-    return allEndpoints.filter(endpoint => {
-      const searchableText = [
-        endpoint.path,
-        endpoint.method,
-        endpoint.summary || '',
-        endpoint.description || '',
-        endpoint.operationId || '',
-        ...(endpoint.tags || [])
-      ].join(' ').toLowerCase();
-      
-      return searchableText.includes(lowerQuery);
-    });
+  // Ranked by BM25 over operationIds, summaries, paths, tags, parameter and body property names,
+  // in one index across the given specs so their scores can be compared
+  searchEndpoints(specs: Array<{ name: string; doc: SwaggerDoc }>, query: string): EndpointHit[] {
+    return this.getSearchIndex(specs).searchEndpoints(query);
   }
 
-  getApiSources(): Array<{ name: string }> {
-    if (!this.swaggerConfig || !this.swaggerConfig.urls) {
-      return [];
-    }
-    return this.swaggerConfig.urls.map(source => ({ name: source.name }));
+  searchSchemas(specs: Array<{ name: string; doc: SwaggerDoc }>, query: string): SchemaHit[] {
+    return this.getSearchIndex(specs).searchSchemas(query);
   }
 
-  getDocBySource(sourceName: string): CombinedSwaggerDoc | undefined {
-    return this.combinedDocs.get(sourceName);
+  private getSearchIndex(specs: Array<{ name: string; doc: SwaggerDoc }>): SearchIndex {
+    if (specs.length === 0) {
+      return new SearchIndex([]);
+    }
+    const key = specs.map(spec => spec.name).join('\n');
+    const indexes = this.searchIndexes.get(specs[0].doc) || new Map<string, { docs: SwaggerDoc[]; index: SearchIndex }>();
+    const cached = indexes.get(key);
+    if (cached && cached.docs.length === specs.length && cached.docs.every((doc, position) => doc === specs[position].doc)) {
+      return cached.index;
+    }
+
+    const index = new SearchIndex(specs.map(({ name, doc }) => ({
+      name,
+      doc,
+      endpoints: this.getEndpoints(doc),
+      schemas: this.getSchemas(doc),
+    })));
+    indexes.set(key, { docs: specs.map(spec => spec.doc), index });
+    this.searchIndexes.set(specs[0].doc, indexes);
+    return index;
   }
-}
\ No newline at end of file
+}
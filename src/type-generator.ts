@@ -0,0 +1,489 @@
+import { getRequestBodySchema, getResponseSchemas, parameterSchema, resolveParameters } from './operation-schemas.js';
+import { visitSpecObjects } from './spec-refs.js';
+import { EndpointInfo, SwaggerDoc } from './swagger-fetcher.js';
+
+export interface GeneratedTypes {
+  types: string[];
+  code: string;
+}
+
+interface TypeDefinition {
+  typeName: string;
+  schema: any;
+}
+
+const SCHEMA_REF_PATTERN = /^#\/(?:components\/schemas|definitions)\/(.+)$/;
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function toTypeName(name: string): string {
+  const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const typeName = words.map(word => word[0].toUpperCase() + word.substring(1)).join('');
+  return !typeName || /^\d/.test(typeName) ? `T${typeName}` : typeName;
+}
+
+function propertyKey(name: string): string {
+  return IDENTIFIER_PATTERN.test(name) ? name : JSON.stringify(name);
+}
+
+function literal(value: unknown): string {
+  return value === null ? 'null' : JSON.stringify(value);
+}
+
+export class TypeGenerator {
+  private schemas: Record<string, any>;
+  private typeNames: Map<string, string> = new Map();
+  private usedNames: Set<string> = new Set();
+
+  constructor(private doc: SwaggerDoc, private options: { zod: boolean }) {
+    this.schemas = { ...doc.definitions, ...doc.components?.schemas };
+
+    // Assign names in sorted order so collisions resolve the same way every time
+    for (const schemaName of Object.keys(this.schemas).sort()) {
+      this.typeNames.set(schemaName, this.reserveName(toTypeName(schemaName)));
+    }
+  }
+
+  forSchema(schemaName: string): GeneratedTypes {
+    const typeName = this.typeNames.get(schemaName);
+    if (!typeName) {
+      throw new Error(`Schema '${schemaName}' not found`);
+    }
+    return this.render([{ typeName, schema: this.schemas[schemaName] }], [schemaName]);
+  }
+
+  forAllSchemas(): GeneratedTypes {
+    const schemaNames = Object.keys(this.schemas).sort();
+    if (schemaNames.length === 0) {
+      throw new Error('The document does not define any schemas');
+    }
+    return this.render(
+      schemaNames.map(schemaName => ({ typeName: this.typeNames.get(schemaName)!, schema: this.schemas[schemaName] })),
+      schemaNames
+    );
+  }
+
+  forOperation(endpoint: EndpointInfo): GeneratedTypes {
+    const baseName = toTypeName(endpoint.operationId || `${endpoint.method.toLowerCase()} ${endpoint.path}`);
+    const definitions: TypeDefinition[] = [];
+    const parameters = resolveParameters(this.doc, endpoint);
+
+    for (const [location, suffix] of [['path', 'PathParams'], ['query', 'QueryParams'], ['header', 'Headers']]) {
+      const located = parameters.filter(parameter => parameter.in === location);
+      if (located.length > 0) {
+        definitions.push({
+          typeName: this.reserveName(`${baseName}${suffix}`),
+          schema: {
+            type: 'object',
+            properties: Object.fromEntries(located.map(parameter => [parameter.name, parameterSchema(parameter)])),
+            required: located.filter(parameter => parameter.required || location === 'path').map(parameter => parameter.name),
+          },
+        });
+      }
+    }
+
+    const requestBody = getRequestBodySchema(this.doc, endpoint);
+    if (requestBody) {
+      definitions.push({ typeName: this.reserveName(`${baseName}Request`), schema: requestBody.schema });
+    }
+
+    const seenStatuses = new Set<string>();
+    for (const response of getResponseSchemas(this.doc, endpoint)) {
+      // One type per status; the preferred (first JSON) media type wins
+      if (seenStatuses.has(response.status) && !response.contentType.includes('json')) {
+        continue;
+      }
+      seenStatuses.add(response.status);
+      const statusName = response.status === 'default' ? 'Default' : response.status.toUpperCase();
+      definitions.push({ typeName: this.reserveName(`${baseName}Response${statusName}`), schema: response.schema });
+    }
+
+    if (definitions.length === 0) {
+      throw new Error(`Operation ${endpoint.method} ${endpoint.path} has no parameters, request body or response schemas`);
+    }
+    return this.render(definitions, []);
+  }
+
+  private reserveName(candidate: string): string {
+    let typeName = candidate;
+    let suffix = 2;
+    while (this.usedNames.has(typeName)) {
+      typeName = `${candidate}${suffix++}`;
+    }
+    this.usedNames.add(typeName);
+    return typeName;
+  }
+
+  private render(roots: TypeDefinition[], rootSchemaNames: string[]): GeneratedTypes {
+    // Pull in every schema reachable through $refs
+    const dependencies = new Set<string>();
+    const pending = roots.flatMap(root => this.collectRefs(root.schema));
+    while (pending.length > 0) {
+      const schemaName = pending.pop()!;
+      if (dependencies.has(schemaName) || rootSchemaNames.includes(schemaName) || !(schemaName in this.schemas)) {
+        continue;
+      }
+      dependencies.add(schemaName);
+      pending.push(...this.collectRefs(this.schemas[schemaName]));
+    }
+
+    const definitions: TypeDefinition[] = [
+      ...roots,
+      ...Array.from(dependencies).sort().map(schemaName => ({
+        typeName: this.typeNames.get(schemaName)!,
+        schema: this.schemas[schemaName],
+      })),
+    ];
+
+    const sections: string[] = [];
+    if (this.options.zod) {
+      sections.push("import { z } from 'zod';");
+    }
+    sections.push(...definitions.map(definition => this.renderTypeScript(definition)));
+    if (this.options.zod) {
+      sections.push(...this.renderZodSchemas(definitions));
+    }
+
+    return {
+      types: definitions.map(definition => definition.typeName),
+      code: `${sections.join('\n\n')}\n`,
+    };
+  }
+
+  private collectRefs(schema: any): string[] {
+    const refs: string[] = [];
+    visitSpecObjects(schema, node => {
+      const schemaName = this.refSchemaName(node.$ref);
+      if (schemaName) {
+        refs.push(schemaName);
+      }
+    }, 'schema');
+    return refs;
+  }
+
+  private refSchemaName(ref: unknown): string | undefined {
+    if (typeof ref !== 'string') {
+      return undefined;
+    }
+    const match = ref.match(SCHEMA_REF_PATTERN);
+    return match ? decodeURIComponent(match[1]).replace(/~1/g, '/').replace(/~0/g, '~') : undefined;
+  }
+
+  private isNullable(schema: Record<string, any>): boolean {
+    return schema.nullable === true || schema['x-nullable'] === true
+      || (Array.isArray(schema.type) && schema.type.includes('null'));
+  }
+
+  private isPlainObjectSchema(schema: any): boolean {
+    return isPlainObject(schema) && !schema.$ref && !schema.allOf && !schema.oneOf && !schema.anyOf
+      && !schema.enum && !this.isNullable(schema)
+      && (schema.type === 'object' || (!schema.type && !!schema.properties))
+      && !!schema.properties && !isPlainObject(schema.additionalProperties);
+  }
+
+  private docComment(schema: any, indent: string): string {
+    if (!isPlainObject(schema)) {
+      return '';
+    }
+    const lines: string[] = [];
+    if (typeof schema.description === 'string' && schema.description.trim()) {
+      lines.push(...schema.description.trim().replace(/\*\//g, '*\\/').split('\n'));
+    }
+    if (typeof schema.format === 'string') {
+      lines.push(`@format ${schema.format}`);
+    }
+    if (schema.deprecated) {
+      lines.push('@deprecated');
+    }
+    if (lines.length === 0) {
+      return '';
+    }
+    if (lines.length === 1) {
+      return `${indent}/** ${lines[0]} */\n`;
+    }
+    return `${indent}/**\n${lines.map(line => `${indent} * ${line}`.trimEnd()).join('\n')}\n${indent} */\n`;
+  }
+
+  private renderTypeScript(definition: TypeDefinition): string {
+    const comment = this.docComment(definition.schema, '');
+    if (this.isPlainObjectSchema(definition.schema)) {
+      return `${comment}export interface ${definition.typeName} ${this.tsObject(definition.schema, '')}`;
+    }
+    return `${comment}export type ${definition.typeName} = ${this.tsType(definition.schema, '')};`;
+  }
+
+  private tsType(schema: any, indent: string): string {
+    if (!isPlainObject(schema)) {
+      return schema === false ? 'never' : 'unknown';
+    }
+    if (typeof schema.$ref === 'string') {
+      const schemaName = this.refSchemaName(schema.$ref);
+      return (schemaName && this.typeNames.get(schemaName)) || 'unknown';
+    }
+
+    const type = this.tsBaseType(schema, indent);
+    return this.isNullable(schema) && type !== 'null' && type !== 'unknown' ? `${type} | null` : type;
+  }
+
+  private tsBaseType(schema: Record<string, any>, indent: string): string {
+    const wrap = (type: string) => (/[|&]/.test(type) && !type.startsWith('{') ? `(${type})` : type);
+
+    if (Array.isArray(schema.allOf)) {
+      const parts = schema.allOf.map((part: any) => wrap(this.tsType(part, indent)));
+      if (schema.properties) {
+        parts.push(this.tsObject(schema, indent));
+      }
+      return parts.join(' & ');
+    }
+    const variants = schema.oneOf || schema.anyOf;
+    if (Array.isArray(variants)) {
+      return variants.map((variant: any) => wrap(this.tsType(variant, indent))).join(' | ');
+    }
+    if (Array.isArray(schema.enum)) {
+      return schema.enum.map(literal).join(' | ');
+    }
+    if ('const' in schema) {
+      return literal(schema.const);
+    }
+
+    const types: string[] = Array.isArray(schema.type)
+      ? schema.type.filter((type: string) => type !== 'null')
+      : [schema.type || (schema.properties || schema.additionalProperties ? 'object' : schema.items ? 'array' : '')];
+
+    const rendered = types.map(type => {
+      switch (type) {
+        case 'string':
+          return 'string';
+        case 'integer':
+        case 'number':
+          return 'number';
+        case 'boolean':
+          return 'boolean';
+        case 'null':
+          return 'null';
+        case 'array':
+          return `Array<${this.tsType(schema.items, indent)}>`;
+        case 'object':
+          return this.tsObject(schema, indent);
+        default:
+          return 'unknown';
+      }
+    });
+    return rendered.length > 0 ? rendered.join(' | ') : 'null';
+  }
+
+  private tsObject(schema: Record<string, any>, indent: string): string {
+    const properties: Record<string, any> = schema.properties || {};
+    const required = new Set<string>(schema.required || []);
+    const additional = schema.additionalProperties;
+    const innerIndent = `${indent}  `;
+
+    const valueType = additional === true || additional === undefined
+      ? 'unknown'
+      : additional === false ? null : this.tsType(additional, indent);
+
+    if (Object.keys(properties).length === 0) {
+      return valueType === null ? 'Record<string, never>' : `Record<string, ${valueType}>`;
+    }
+
+    const lines = Object.entries(properties).map(([name, property]) =>
+      `${this.docComment(property, innerIndent)}${innerIndent}${propertyKey(name)}${required.has(name) ? '' : '?'}: ${this.tsType(property, innerIndent)};`
+    );
+    const body = `{\n${lines.join('\n')}\n${indent}}`;
+
+    // Declared properties would have to be assignable to an index signature, so intersect instead
+    if (isPlainObject(additional)) {
+      return `${body} & Record<string, ${valueType}>`;
+    }
+    return body;
+  }
+
+  private renderZodSchemas(definitions: TypeDefinition[]): string[] {
+    const byTypeName = new Map(definitions.map(definition => [definition.typeName, definition]));
+    const ordered: TypeDefinition[] = [];
+    const cyclic = new Set<string>();
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+
+    // Dependencies are declared first; members of a cycle are wrapped in z.lazy
+    const visit = (typeName: string) => {
+      const current = state.get(typeName);
+      if (current === 'done') {
+        return;
+      }
+      if (current === 'visiting') {
+        stack.slice(stack.indexOf(typeName)).forEach(name => cyclic.add(name));
+        return;
+      }
+      state.set(typeName, 'visiting');
+      stack.push(typeName);
+      const definition = byTypeName.get(typeName)!;
+      for (const schemaName of this.collectRefs(definition.schema)) {
+        const dependency = this.typeNames.get(schemaName);
+        if (dependency && byTypeName.has(dependency)) {
+          visit(dependency);
+        }
+      }
+      stack.pop();
+      state.set(typeName, 'done');
+      ordered.push(definition);
+    };
+    definitions.forEach(definition => visit(definition.typeName));
+
+    return ordered.map(definition => {
+      const expression = this.zodType(definition.schema);
+      if (cyclic.has(definition.typeName)) {
+        return `export const ${definition.typeName}Schema: z.ZodType<${definition.typeName}> = z.lazy(() => ${expression});`;
+      }
+      return `export const ${definition.typeName}Schema = ${expression};`;
+    });
+  }
+
+  private zodType(schema: any): string {
+    if (!isPlainObject(schema)) {
+      return schema === false ? 'z.never()' : 'z.unknown()';
+    }
+    if (typeof schema.$ref === 'string') {
+      const schemaName = this.refSchemaName(schema.$ref);
+      const typeName = schemaName && this.typeNames.get(schemaName);
+      return typeName ? `${typeName}Schema` : 'z.unknown()';
+    }
+
+    const expression = this.zodBaseType(schema);
+    return this.isNullable(schema) && expression !== 'z.null()' ? `${expression}.nullable()` : expression;
+  }
+
+  private zodBaseType(schema: Record<string, any>): string {
+    if (Array.isArray(schema.allOf)) {
+      const parts: string[] = schema.allOf.map((part: any) => this.zodType(part));
+      if (schema.properties) {
+        parts.push(this.zodObject(schema));
+      }
+      return parts.reduce((combined, part) => `${combined}.and(${part})`);
+    }
+    const variants = schema.oneOf || schema.anyOf;
+    if (Array.isArray(variants)) {
+      const members = variants.map((variant: any) => this.zodType(variant));
+      return members.length === 1 ? members[0] : `z.union([${members.join(', ')}])`;
+    }
+    if (Array.isArray(schema.enum)) {
+      if (schema.enum.length > 0 && schema.enum.every((value: unknown) => typeof value === 'string')) {
+        return `z.enum([${schema.enum.map(literal).join(', ')}])`;
+      }
+      const members = schema.enum.map((value: unknown) => `z.literal(${literal(value)})`);
+      return members.length === 1 ? members[0] : `z.union([${members.join(', ')}])`;
+    }
+    if ('const' in schema) {
+      return `z.literal(${literal(schema.const)})`;
+    }
+
+    const types: string[] = Array.isArray(schema.type)
+      ? schema.type.filter((type: string) => type !== 'null')
+      : [schema.type || (schema.properties || schema.additionalProperties ? 'object' : schema.items ? 'array' : '')];
+
+    const members = types.map(type => {
+      switch (type) {
+        case 'string':
+          return this.zodString(schema);
+        case 'integer':
+        case 'number':
+          return this.zodNumber(schema, type === 'integer');
+        case 'boolean':
+          return 'z.boolean()';
+        case 'null':
+          return 'z.null()';
+        case 'array': {
+          let expression = `z.array(${this.zodType(schema.items)})`;
+          if (typeof schema.minItems === 'number') {
+            expression += `.min(${schema.minItems})`;
+          }
+          if (typeof schema.maxItems === 'number') {
+            expression += `.max(${schema.maxItems})`;
+          }
+          return expression;
+        }
+        case 'object':
+          return this.zodObject(schema);
+        default:
+          return 'z.unknown()';
+      }
+    });
+    if (members.length === 0) {
+      return 'z.null()';
+    }
+    return members.length === 1 ? members[0] : `z.union([${members.join(', ')}])`;
+  }
+
+  private zodString(schema: Record<string, any>): string {
+    let expression = 'z.string()';
+    switch (schema.format) {
+      case 'email':
+        expression += '.email()';
+        break;
+      case 'uuid':
+        expression += '.uuid()';
+        break;
+      case 'uri':
+      case 'url':
+        expression += '.url()';
+        break;
+      case 'date-time':
+        expression += '.datetime({ offset: true })';
+        break;
+    }
+    if (typeof schema.minLength === 'number') {
+      expression += `.min(${schema.minLength})`;
+    }
+    if (typeof schema.maxLength === 'number') {
+      expression += `.max(${schema.maxLength})`;
+    }
+    if (typeof schema.pattern === 'string') {
+      expression += `.regex(new RegExp(${JSON.stringify(schema.pattern)}))`;
+    }
+    return expression;
+  }
+
+  private zodNumber(schema: Record<string, any>, integer: boolean): string {
+    let expression = integer ? 'z.number().int()' : 'z.number()';
+    // Swagger 2 / OpenAPI 3.0 use boolean exclusive flags, OpenAPI 3.1 uses numbers
+    if (typeof schema.minimum === 'number') {
+      expression += schema.exclusiveMinimum === true ? `.gt(${schema.minimum})` : `.gte(${schema.minimum})`;
+    } else if (typeof schema.exclusiveMinimum === 'number') {
+      expression += `.gt(${schema.exclusiveMinimum})`;
+    }
+    if (typeof schema.maximum === 'number') {
+      expression += schema.exclusiveMaximum === true ? `.lt(${schema.maximum})` : `.lte(${schema.maximum})`;
+    } else if (typeof schema.exclusiveMaximum === 'number') {
+      expression += `.lt(${schema.exclusiveMaximum})`;
+    }
+    return expression;
+  }
+
+  private zodObject(schema: Record<string, any>): string {
+    const properties: Record<string, any> = schema.properties || {};
+    const required = new Set<string>(schema.required || []);
+    const additional = schema.additionalProperties;
+
+    if (Object.keys(properties).length === 0) {
+      return additional === false
+        ? 'z.object({}).strict()'
+        : `z.record(${isPlainObject(additional) ? this.zodType(additional) : 'z.unknown()'})`;
+    }
+
+    const fields = Object.entries(properties).map(([name, property]) =>
+      `${propertyKey(name)}: ${this.zodType(property)}${required.has(name) ? '' : '.optional()'}`
+    );
+    let expression = `z.object({ ${fields.join(', ')} })`;
+    if (additional === false) {
+      expression += '.strict()';
+    } else if (additional === true) {
+      expression += '.passthrough()';
+    } else if (isPlainObject(additional)) {
+      expression += `.catchall(${this.zodType(additional)})`;
+    }
+    return expression;
+  }
+}
@@ -0,0 +1,142 @@
+import { MergeConflict } from './spec-merger.js';
+import { CombinedSwaggerDoc, EndpointInfo, SwaggerDoc, SwaggerFetcher } from './swagger-fetcher.js';
+
+export interface LoadedSpec {
+  name: string;
+  location: string;
+  doc: SwaggerDoc;
+  sources: Array<{ name: string }>;
+  sourceDocs: Map<string, CombinedSwaggerDoc>;
+  conflicts: MergeConflict[];
+  loadedAt: number;
+}
+
+export class SpecWorkspace {
+  private specs: Map<string, LoadedSpec> = new Map();
+  private activeSpec: string | null = null;
+
+  constructor(private fetcher: SwaggerFetcher) {}
+
+  async load(location: string, name?: string): Promise<LoadedSpec> {
+    console.error(`[SpecWorkspace] Loading spec from ${location}${name ? ` as '${name}'` : ''}`);
+    const { doc, sources, sourceDocs, conflicts } = await this.fetcher.fetchSwaggerDoc(location);
+
+    // Re-fetching a known location replaces that spec instead of adding a copy, renaming it when a new name is given
+    const existing = Array.from(this.specs.values()).find(spec => spec.location === location);
+    const specName = name || existing?.name || this.uniqueName(doc.info?.title || location);
+    if (existing && existing.name !== specName) {
+      this.specs.delete(existing.name);
+    }
+
+    const spec: LoadedSpec = {
+      name: specName,
+      location,
+      doc,
+      sources,
+      sourceDocs: new Map(sourceDocs),
+      conflicts,
+      loadedAt: Date.now(),
+    };
+    this.specs.set(specName, spec);
+    this.activeSpec = specName;
+    console.error(`[SpecWorkspace] Loaded spec '${specName}' with ${Object.keys(doc.paths || {}).length} paths`);
+
+    return spec;
+  }
+
+  // Swaps in a refreshed copy only if the spec is still the one it was built from; the active spec is unchanged
+  replace(current: LoadedSpec, updated: LoadedSpec): boolean {
+    if (this.specs.get(current.name) !== current) {
+      return false;
+    }
+    this.specs.set(current.name, updated);
+    return true;
+  }
+
+  unload(name: string): boolean {
+    const removed = this.specs.delete(name);
+    if (removed && this.activeSpec === name) {
+      const remaining = Array.from(this.specs.keys());
+      this.activeSpec = remaining.length > 0 ? remaining[remaining.length - 1] : null;
+    }
+    return removed;
+  }
+
+  has(name: string): boolean {
+    return this.specs.has(name);
+  }
+
+  list(): LoadedSpec[] {
+    return Array.from(this.specs.values());
+  }
+
+  // Returns the named spec, or the most recently loaded one when no name is given
+  get(name?: string): LoadedSpec {
+    if (this.specs.size === 0) {
+      throw new Error('No Swagger documentation loaded. Please fetch a Swagger document first.');
+    }
+
+    const specName = name || this.activeSpec;
+    const spec = specName ? this.specs.get(specName) : undefined;
+    if (!spec) {
+      throw new Error(`Spec '${specName}' is not loaded. Loaded specs: ${Array.from(this.specs.keys()).join(', ')}`);
+    }
+    return spec;
+  }
+
+  // Returns the named spec, or every loaded spec for cross-spec queries
+  resolve(name?: string): LoadedSpec[] {
+    if (name) {
+      return [this.get(name)];
+    }
+    if (this.specs.size === 0) {
+      throw new Error('No Swagger documentation loaded. Please fetch a Swagger document first.');
+    }
+    return this.list();
+  }
+
+  // Finds the spec defining a schema, requiring a spec name when several do
+  findSchema(schemaName: string, specName?: string): { spec: LoadedSpec; schema: any } {
+    const matches = this.resolve(specName).filter(spec =>
+      this.fetcher.getSchemas(spec.doc)[schemaName]
+    );
+
+    if (matches.length === 0) {
+      throw new Error(`Schema '${schemaName}' not found`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Schema '${schemaName}' exists in multiple specs (${matches.map(spec => spec.name).join(', ')}). Please specify the spec argument.`);
+    }
+    return { spec: matches[0], schema: this.fetcher.getSchemas(matches[0].doc)[schemaName] };
+  }
+
+  // Finds an operation by operationId or method+path across the loaded specs
+  findEndpoint(
+    operation: { operationId?: string; method?: string; path?: string },
+    specName?: string
+  ): { spec: LoadedSpec; endpoint: EndpointInfo } {
+    const matches = this.resolve(specName).flatMap(spec => {
+      const endpoint = this.fetcher.findEndpoint(spec.doc, operation);
+      return endpoint ? [{ spec, endpoint }] : [];
+    });
+    const label = operation.operationId || `${operation.method?.toUpperCase()} ${operation.path}`;
+
+    if (matches.length === 0) {
+      throw new Error(`Operation '${label}' not found`);
+    }
+    if (matches.length > 1) {
+      throw new Error(`Operation '${label}' exists in multiple specs (${matches.map(match => match.spec.name).join(', ')}). Please specify the spec argument.`);
+    }
+    return matches[0];
+  }
+
+  private uniqueName(title: string): string {
+    const base = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'spec';
+    let candidate = base;
+    let suffix = 2;
+    while (this.specs.has(candidate)) {
+      candidate = `${base}-${suffix++}`;
+    }
+    return candidate;
+  }
+}